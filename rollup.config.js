@@ -16,6 +16,10 @@ export default [
       {
         file: packageJson.main,
         format: "cjs",
+        exports: "named",
+        // `require(...)` stays ArtBoard itself, as before there were named
+        // exports, and carries them along with `default`
+        footer: "module.exports = Object.assign(exports.default, exports);",
         sourcemap: true,
       },
       {
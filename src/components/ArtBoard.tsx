@@ -1,4 +1,3 @@
-/* eslint-disable react-hooks/exhaustive-deps */
 /**
  * EnarcUI ArtBoard: A versatile drawing tool component for React.
  *
@@ -6,12 +5,29 @@
  * Users can also utilize tools such as brushes and erasers, and import/export their drawings.
  *
  * Features:
- * - Draw shapes: Line, Circle, Rectangle, Arrow.
- * - Select and manipulate shapes.
- * - Undo/Redo history.
- * - Export drawings as an image.
- * - Background image support.
- * - Adjustable brush size and color.
+ * - Draw shapes: Line, Circle, Ellipse, Rectangle, Polygon, Arrow.
+ * - Translucent highlighter alongside the brush.
+ * - Text annotations, editable in place.
+ * - Select and manipulate shapes, one at a time or as a group.
+ * - Optional snap-to-grid, alignment guides and Shift angle constraints.
+ * - Z-order controls and named layers that can be hidden or locked.
+ * - Undo/Redo history that shares unchanged objects between steps.
+ * - Export drawings as an image or as SVG vector graphics.
+ * - Background image fitted by contain, cover, stretch or natural size, and
+ *   images as movable objects.
+ * - Mouse, touch and pen input, with pressure-sensitive pen strokes.
+ * - Optional stroke smoothing and simplification.
+ * - Crisp rendering and exports on high-DPI displays.
+ * - Zoom and pan with Ctrl+wheel, pinch, Space+drag or the middle mouse button.
+ * - Adjustable brush size and color, with optional fill for closed shapes.
+ * - Object eraser that removes shapes and splits strokes, or a pixel eraser.
+ * - Save and restore drawings as versioned JSON scene documents.
+ * - Controlled mode via `value`/`onChange` for external state management.
+ * - Keyboard shortcuts for tools, history, deletion and nudging.
+ * - Copy, cut, paste and duplicate objects, between boards too, and paste images.
+ * - Imperative API to query and edit objects by their stable IDs.
+ * - Read-only viewing, and controls on any side of the canvas or hidden.
+ * - A `useArtBoard` hook and `ArtBoardCanvas` component for custom layouts.
  *
  * @example
  * // Basic usage
@@ -37,28 +53,46 @@
  * export default App;
  */
 
-import React, {
-  forwardRef,
-  useCallback,
-  useEffect,
-  useImperativeHandle,
-  useRef,
-  useState,
-} from "react";
+import React, { forwardRef, useImperativeHandle } from "react";
 import { HexColorPicker } from "react-colorful";
-import { useCanvasEvents } from "../hooks/useCanvasEvents";
-import { useCanvasHandlers } from "../hooks/useCanvasHandlers";
+import { useArtBoard } from "../hooks/useArtBoard";
+import { ShortcutMap } from "../hooks/useKeyboardShortcuts";
 import styles from "../styles/ArtBoard.module.css";
+import ArtBoardCanvas from "./ArtBoardCanvas";
 import ActionButtons from "./Tools/ActionButtons";
 import { Shapes } from "./Tools/Shapes";
+import FillPicker from "./Tools/FillPicker";
+import LayersPanel from "./Tools/LayersPanel";
 import Slider from "./Tools/Slider";
+import { SceneError } from "../utils/scene";
+
+/**
+ * A point of a drawing object.
+ */
+export interface Point {
+  x: number; // X-coordinate in drawing units.
+  y: number; // Y-coordinate in drawing units.
+  pressure?: number; // Pen pressure from 0 to 1, recorded on pen strokes.
+}
 
 /**
  * Represents a drawable object on the canvas.
  */
 export interface DrawingObject {
-  type: "brush" | "circle" | "arrow" | "rect" | "eraser";
-  points: { x: number; y: number }[]; // The points defining the object.
+  id: string; // A unique ID that stays the same as the object is edited.
+  type:
+    | "brush"
+    | "highlighter"
+    | "circle"
+    | "ellipse"
+    | "arrow"
+    | "line"
+    | "rect"
+    | "polygon"
+    | "eraser"
+    | "text"
+    | "image";
+  points: Point[]; // The points defining the object.
   stroke: string; // The color of the stroke.
   strokeWidth: number; // The width of the stroke.
   bounds: {
@@ -67,42 +101,289 @@ export interface DrawingObject {
     width: number; // Width of the bounding box.
     height: number; // Height of the bounding box.
   };
-  selected: boolean; // Whether the object is selected.
+  selected: boolean; // Unused, always false: the board tracks the selection.
   erased?: boolean; // Flag to mark if part of object is erased
   erasedPaths?: { x: number; y: number }[][];
+  fill?: FillStyle; // The fill of a closed shape.
+  closed?: boolean; // Whether a polygon is closed rather than an open polyline.
+  text?: string; // The content of a text object, lines separated by "\n".
+  fontSize?: number; // The font size of a text object in pixels.
+  src?: string; // The source of an image object, such as a data URL.
+  smooth?: boolean; // Whether a brush stroke is drawn as smooth curves.
+  layer?: string; // ID of the object's layer; the bottom layer if unset.
+}
+
+/**
+ * An object to add through `ArtBoardRef.addObject`. Its bounds are computed
+ * from its points, and an ID is generated if it has none or it is taken.
+ */
+export type NewDrawingObject = Omit<
+  DrawingObject,
+  "id" | "bounds" | "selected"
+> & {
+  id?: string;
+};
+
+/**
+ * Brush settings for `ArtBoardRef.setBrush`.
+ */
+export interface BrushOptions {
+  color?: string; // The stroke color of new objects.
+  radius?: number; // The stroke width of new objects, as set by the size slider.
+}
+
+/**
+ * Where the images of image objects are kept. Without one, inserted images
+ * are stored in the scene as data URLs.
+ */
+export interface AssetResolver {
+  /**
+   * Stores an inserted image, given as a data URL and as the original file,
+   * and resolves to the reference to keep in the object's `src`, such as
+   * the URL it was uploaded to or an asset ID.
+   */
+  store: (dataURL: string, file: Blob) => Promise<string>;
+  /**
+   * Returns the URL to load the image referenced by `src` from.
+   * Default: `src` itself.
+   */
+  resolve?: (src: string) => string;
+}
+
+/**
+ * A named layer. Layers are painted bottom to top, and objects within a
+ * layer in list order.
+ */
+export interface Layer {
+  id: string; // A unique ID, referenced by `DrawingObject.layer`.
+  name: string; // The name shown in the layers panel.
+  visible: boolean; // Whether the layer's objects are drawn and exported.
+  locked: boolean; // Whether the layer's objects can be selected or erased.
+}
+
+/**
+ * The fill of a closed shape.
+ */
+export interface FillStyle {
+  color: string; // The fill color.
+  opacity: number; // The fill opacity, from 0 to 1.
+}
+
+/**
+ * The zoom and pan of the canvas. A drawing point `p` appears on the canvas
+ * at `p * scale + (x, y)`.
+ */
+export interface View {
+  scale: number; // The zoom level, where 1 is 100%.
+  x: number; // Horizontal offset of the drawing on the canvas, in pixels.
+  y: number; // Vertical offset of the drawing on the canvas, in pixels.
+}
+
+/**
+ * Options for `exportDrawing`.
+ */
+export interface ExportOptions {
+  /**
+   * Pixels per drawing unit in the exported image, e.g. 2 for an image
+   * twice the drawing size that stays sharp on retina displays.
+   * Default: 1
+   */
+  pixelRatio?: number;
+}
+
+/**
+ * The tools available in the toolbar.
+ */
+export type ToolType =
+  | "brush"
+  | "highlighter"
+  | "circle"
+  | "ellipse"
+  | "arrow"
+  | "line"
+  | "rect"
+  | "polygon"
+  | "select"
+  | "eraser"
+  | "text";
+
+/**
+ * An open inline text editor, placed over the canvas.
+ */
+export interface TextEditor {
+  x: number; // X-coordinate of the top-left corner of the text.
+  y: number; // Y-coordinate of the top-left corner of the text.
+  id: string | null; // The text object being edited, or null for new text.
+  value: string; // The text typed so far.
+  fontSize: number; // The font size in pixels.
+  color: string; // The text color.
+}
+
+/**
+ * How the eraser tool works:
+ * - "object" removes shapes it touches and splits brush strokes where it passes.
+ * - "pixel" paints out pixels of the drawing, leaving the background intact.
+ */
+export type EraserMode = "object" | "pixel";
+
+/**
+ * How the background image is fitted to the drawing area:
+ * - "contain" shows all of it, as large as fits, keeping its aspect ratio.
+ * - "cover" fills the area, keeping its aspect ratio and cropping the rest.
+ * - "stretch" fills the area, distorting the image to match.
+ * - "none" shows it at its natural size, centered and cropped to the area.
+ */
+export type BackgroundFit = "contain" | "cover" | "stretch" | "none";
+
+/**
+ * Where the controls are placed around the canvas, or "hidden" to show the
+ * canvas alone.
+ */
+export type ToolbarPosition = "right" | "left" | "top" | "bottom" | "hidden";
+
+/**
+ * A rubber-band selection rectangle dragged with the select tool.
+ */
+export interface Marquee {
+  start: { x: number; y: number }; // Where the drag started.
+  end: { x: number; y: number }; // The current pointer position.
+  additive: boolean; // Whether to add to the existing selection (Shift held).
 }
 
+/**
+ * An alignment guide, shown while dragged objects line up with another.
+ */
+export interface Guide {
+  axis: "x" | "y"; // The axis `position` is on: "x" for a vertical line.
+  position: number; // Where the line is, in drawing units.
+  start: number; // Where the line starts along the other axis.
+  end: number; // Where the line ends along the other axis.
+}
+
+/**
+ * Describes what caused the object list to change in `onChange`.
+ */
+export type ObjectsChangeReason =
+  | "draw" // A stroke or shape was committed.
+  | "move" // Objects were moved or selected with the select tool.
+  | "resize" // An object was resized with a select tool handle.
+  | "restyle" // The selected objects were recolored or refilled.
+  | "erase" // Objects were removed or split by the object eraser.
+  | "edit" // An object was edited in place, such as the content of a text.
+  | "reorder" // The selection was moved in the z-order or to another layer.
+  | "paste" // Objects or an image were pasted, or the selection duplicated.
+  | "insert" // An image was dropped on the canvas or picked from a file.
+  | "delete" // The selected object was deleted.
+  | "clear" // The canvas was cleared.
+  | "undo" // A change was undone.
+  | "redo" // A change was redone.
+  | "load"; // A scene was loaded from `saveData`.
+
 /**
  * Props for the ArtBoard component.
  */
-interface ArtBoardProps {
+export interface ArtBoardProps {
   /**
    * Serialized drawing data to load into the ArtBoard.
    * This can be used to initialize the ArtBoard with existing drawings.
+   * Accepts a scene document produced by `serialize()`; documents written by
+   * older versions are migrated on load.
    *
    * @example
-   * const existingData = "serialized-drawing-data";
+   * const existingData = artBoardRef.current?.serialize();
    * <ArtBoard saveData={existingData} />;
    */
   saveData?: string;
 
+  /**
+   * Called when `saveData` cannot be loaded, either because it is malformed
+   * (`SceneParseError`) or was written by a newer version (`SceneVersionError`).
+   * Default: logs the error with `console.error`.
+   */
+  onLoadError?: (error: SceneError) => void;
+
+  /**
+   * The object list to display, for controlled usage.
+   * When provided, the ArtBoard renders this list instead of its own state and
+   * reports committed edits through `onChange`; the parent is expected to pass
+   * the new list back in. In-progress strokes are kept internally until commit.
+   * Default: undefined (uncontrolled).
+   *
+   * @example
+   * const objects = useSelector(selectObjects);
+   * <ArtBoard
+   *   value={objects}
+   *   onChange={(next) => dispatch(setObjects(next))}
+   * />
+   */
+  value?: DrawingObject[];
+
+  /**
+   * Called whenever the object list changes through a committed edit: a
+   * finished stroke or shape, a move, delete, clear, undo, redo or load.
+   * Fires in both controlled and uncontrolled mode.
+   */
+  onChange?: (objects: DrawingObject[], reason: ObjectsChangeReason) => void;
+
   /**
    * Background image source URL to display on the canvas.
    * When provided, the image is drawn as a background for the canvas.
+   * Default: the background stored in `saveData`, if any
    *
    * @example
    * <ArtBoard imageSrc="https://example.com/background.jpg" />;
    */
   imageSrc?: string;
+
+  /**
+   * How the background image is fitted to the drawing area.
+   * Default: "stretch"
+   */
+  backgroundFit?: BackgroundFit;
+
+  /**
+   * Resize the board to the background image's natural size once it loads,
+   * instead of `width` by `height`.
+   * Default: false
+   */
+  resizeToBackground?: boolean;
+
+  /**
+   * The CORS mode the background image and image objects are requested
+   * with. Images from another origin must be served with CORS headers to be
+   * exported or copied, as they would otherwise taint the canvas; pass null
+   * for servers without them.
+   * Default: "anonymous"
+   */
+  crossOrigin?: "anonymous" | "use-credentials" | null;
+
+  /**
+   * Called with the background image once it has loaded.
+   */
+  onBackgroundLoad?: (image: HTMLImageElement) => void;
+
+  /**
+   * Called when the background image fails to load.
+   * Default: logs the error with `console.error`.
+   */
+  onBackgroundError?: (error: Error) => void;
+
+  /**
+   * Color of the drawing area behind the background image and objects.
+   * It shows on the canvas but is left out of exports.
+   * Default: "#ffffff"
+   */
+  backgroundColor?: string;
+
   /**
    * Width of the drawing canvas in pixels.
-   * Default: 800
+   * Default: the width stored in `saveData`, or 800
    */
   width?: number;
 
   /**
    * Height of the drawing canvas in pixels.
-   * Default: 600
+   * Default: the height stored in `saveData`, or 600
    */
   height?: number;
 
@@ -113,6 +394,21 @@ interface ArtBoardProps {
    * Default: 'auto' (no fixed height).
    */
   controlsHeight?: number | string;
+
+  /**
+   * Where the controls are placed around the canvas. Above or below it, their
+   * groups are laid out side by side.
+   * Default: "right"
+   */
+  toolbarPosition?: ToolbarPosition;
+
+  /**
+   * Whether to show the controls. `false` is the same as a `toolbarPosition`
+   * of "hidden"; the board can still be driven through its ref.
+   * Default: true
+   */
+  showControls?: boolean;
+
   /**
    * An optional array of default colors for the color picker.
    * If specified, the ArtBoard will render a palette of these colors instead of the full spectrum.
@@ -121,6 +417,87 @@ interface ArtBoardProps {
    * <ArtBoard defaultColors={['#000000', '#FF0000', '#00FF00', '#0000FF']} />
    */
   defaultColors?: string[];
+
+  /**
+   * Initial mode of the eraser tool, which users can switch in the controls.
+   * "object" removes whole shapes and splits brush strokes, "pixel" paints out
+   * parts of the drawing. Neither erases the background image.
+   * Default: "object"
+   */
+  eraserMode?: EraserMode;
+
+  /**
+   * Keyboard shortcuts, active while the board has focus.
+   * Entries override the defaults per action: a binding such as "mod+z"
+   * ("mod" is Ctrl, or Cmd on macOS), an array of bindings, or null to disable
+   * the action. Pass `false` to disable all shortcuts.
+   * Defaults: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redo,
+   * Delete/Backspace delete, Escape deselect, Ctrl/Cmd+D duplicate, arrow keys
+   * nudge (Shift for 10px), and B, C, R, A, V, E, T, H, O, L, P for the brush,
+   * circle, rect, arrow, select, eraser, text, highlighter, ellipse, line and
+   * polygon tools.
+   *
+   * @example
+   * <ArtBoard shortcuts={{ select: "s", delete: null }} />
+   */
+  shortcuts?: ShortcutMap | false;
+
+  /**
+   * Maximum number of undo steps kept. Older steps are dropped.
+   * Default: 100
+   */
+  historyLimit?: number;
+
+  /**
+   * Brush stroke smoothing. When above 0, new brush strokes are drawn as
+   * smooth curves, and their points are simplified when the stroke ends,
+   * dropping points within this many pixels of the simplified line.
+   * Default: 0 (off)
+   */
+  smoothing?: number;
+
+  /**
+   * Spacing of a background grid in pixels. Shape corners, resize handles
+   * and moved objects snap to it; hold Alt to place them freely.
+   * Default: 0 (no grid)
+   */
+  gridSize?: number;
+
+  /**
+   * Stores and resolves the images of image objects, e.g. to upload dropped
+   * images instead of keeping them in the scene as data URLs.
+   * Default: undefined (images are kept as data URLs).
+   *
+   * @example
+   * <ArtBoard
+   *   assets={{
+   *     store: async (dataURL, file) => (await upload(file)).url,
+   *   }}
+   * />
+   */
+  assets?: AssetResolver;
+
+  /**
+   * Shows the drawing without letting users edit it. Zoom and pan still work,
+   * with a plain drag panning, and the controls only offer exports. Ref
+   * methods such as `addObject` still edit the drawing.
+   * Default: false
+   */
+  readOnly?: boolean;
+
+  /**
+   * Called when the Export button fails, as when an image from another
+   * origin, loaded without CORS, keeps the canvas from being read.
+   * Default: logs the error with `console.error`.
+   */
+  onExportError?: (error: Error) => void;
+
+  /**
+   * Called when a dropped, pasted or inserted image file cannot be added, as
+   * when it is not a valid image or `assets.store` rejects.
+   * Default: logs the error with `console.error`.
+   */
+  onImageError?: (error: Error) => void;
 }
 
 /**
@@ -130,15 +507,142 @@ export interface ArtBoardRef {
   /**
    * Exports the current drawing on the canvas as a base64-encoded PNG image.
    *
+   * @param {ExportOptions} [options] - Export options, such as `pixelRatio`.
    * @returns {Promise<string>} A promise that resolves to the base64 representation of the canvas image.
+   * It rejects if an image from another origin, loaded without CORS, keeps
+   * the canvas from being read.
    *
    * @example
    * const imageData = await artBoardRef.current?.exportDrawing();
    * console.log(imageData);
+   *
+   * // A 2x image for retina displays
+   * const retinaData = await artBoardRef.current?.exportDrawing({ pixelRatio: 2 });
+   */
+  exportDrawing: (options?: ExportOptions) => Promise<string>;
+
+  /**
+   * Serializes the current drawing into a versioned JSON scene document
+   * that can be passed back through the `saveData` prop.
+   *
+   * @returns {string} The serialized scene document.
+   *
+   * @example
+   * const saveData = artBoardRef.current?.serialize();
+   * localStorage.setItem("drawing", saveData);
+   */
+  serialize: () => string;
+
+  /**
+   * Exports the current drawing as an SVG document.
+   * Shapes stay vector: strokes become paths, circles and rectangles become
+   * native SVG elements, and eraser strokes become masks.
+   *
+   * @returns {Promise<string>} A promise that resolves to the SVG markup.
+   *
+   * @example
+   * const svg = await artBoardRef.current?.exportSVG();
    */
-  exportDrawing: () => Promise<string>;
+  exportSVG: () => Promise<string>;
+
+  /**
+   * Returns the current zoom and pan of the canvas.
+   *
+   * @returns {View} The current view.
+   */
+  getView: () => View;
+
+  /**
+   * Sets the zoom and pan of the canvas. The scale is clamped to 10%-1000%.
+   *
+   * @example
+   * // Show the drawing at 200%, from its top-left corner
+   * artBoardRef.current?.setView({ scale: 2, x: 0, y: 0 });
+   */
+  setView: (view: View) => void;
+
+  /**
+   * Whether there is a change to undo. Check it again after `onChange`,
+   * which fires on every change to history.
+   */
+  canUndo: () => boolean;
+
+  /**
+   * Whether there is an undone change to redo.
+   */
+  canRedo: () => boolean;
+
+  /**
+   * Undoes the last change, if any.
+   */
+  undo: () => void;
+
+  /**
+   * Redoes the last undone change, if any.
+   */
+  redo: () => void;
+
+  /**
+   * Returns the current objects, in paint order.
+   */
+  getObjects: () => DrawingObject[];
+
+  /**
+   * Adds an object on top of the others, as one undoable step.
+   *
+   * @returns {string} The ID of the new object, which differs from
+   * `object.id` when that is already taken.
+   *
+   * @example
+   * const id = artBoardRef.current?.addObject({
+   *   type: "rect",
+   *   points: [{ x: 10, y: 10 }, { x: 110, y: 60 }],
+   *   stroke: "#ff0000",
+   *   strokeWidth: 4,
+   * });
+   */
+  addObject: (object: NewDrawingObject) => string;
+
+  /**
+   * Applies `patch` to the object with `id`, as one undoable step.
+   * Its bounds are recomputed from the patched points.
+   *
+   * @returns {boolean} Whether an object with `id` was found.
+   */
+  updateObject: (id: string, patch: Partial<NewDrawingObject>) => boolean;
+
+  /**
+   * Removes the object with `id`, as one undoable step.
+   *
+   * @returns {boolean} Whether an object with `id` was found.
+   */
+  removeObject: (id: string) => boolean;
+
+  /**
+   * Removes every object, as one undoable step.
+   */
+  clear: () => void;
+
+  /**
+   * Selects the active tool.
+   */
+  setTool: (tool: ToolType) => void;
+
+  /**
+   * Sets the color and/or size used for new objects.
+   */
+  setBrush: (brush: BrushOptions) => void;
 }
 
+// Layout of the board for each toolbar position
+const TOOLBAR_CLASSES: Record<ToolbarPosition, string> = {
+  right: "",
+  left: styles.toolbarLeft,
+  top: styles.toolbarTop,
+  bottom: styles.toolbarBottom,
+  hidden: styles.toolbarHidden,
+};
+
 /**
  * The ArtBoard component provides an interactive canvas for drawing and editing shapes.
  *
@@ -146,6 +650,9 @@ export interface ArtBoardRef {
  *
  * @param {Object} props - The props for the ArtBoard component.
  * @param {string} [props.saveData] - Serialized drawing data to initialize the canvas with existing drawings.
+ * @param {Function} [props.onLoadError] - Called when `saveData` cannot be loaded.
+ * @param {DrawingObject[]} [props.value] - Object list for controlled usage.
+ * @param {Function} [props.onChange] - Called with the new object list after each committed edit.
  * @param {string} [props.imageSrc] - Background image URL to render behind the drawings on the canvas.
  *
  * @returns {React.ReactElement} The rendered ArtBoard component.
@@ -183,313 +690,102 @@ export interface ArtBoardRef {
 const ArtBoard = forwardRef<ArtBoardRef, ArtBoardProps>(
   (
     {
-      saveData,
-      imageSrc,
-      width = 800,
-      height = 600,
+      backgroundColor = "#ffffff",
       controlsHeight = "auto",
+      toolbarPosition = "right",
+      showControls = true,
       defaultColors,
+      ...options
     },
     ref
   ) => {
-    // Canvas reference
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const animationRef = useRef<number | null>(null);
-
-    // State for drawable objects and user actions
-    const [objects, setObjects] = useState<DrawingObject[]>([]);
-    const [isDrawing, setIsDrawing] = useState(false);
-
-    // Tool state management
-    const [tool, setTool] = useState<
-      "brush" | "circle" | "arrow" | "rect" | "select" | "eraser"
-    >("brush");
-    const [brushColor, setBrushColor] = useState("#000000");
-    const [brushRadius, setBrushRadius] = useState(5);
-
-    // Selection and history management
-    const [selectedObject, setSelectedObject] = useState<number | null>(null);
-    const [startPos, setStartPos] = useState<{ x: number; y: number } | null>(
-      null
-    );
-    const [resizeHandle, setResizeHandle] = useState<number | null>(null);
-
-    const [history, setHistory] = useState<DrawingObject[][]>([[]]);
-    const [historyIndex, setHistoryIndex] = useState(0);
-
-    // State for the background image
-    const [backgroundImage, setBackgroundImage] =
-      useState<HTMLImageElement | null>(null);
-
-    // Handlers for canvas interactions
-    const { undo, redo, handleDelete, handleClearCanvas, handleExportImage } =
-      useCanvasHandlers({
-        canvasRef,
-        objects,
-        setObjects,
-        setSelectedObject,
-        selectedObject,
-        setHistory,
-        setHistoryIndex,
-        history,
-        historyIndex,
-      });
-
-    const {
-      handleMouseDown,
-      handleMouseMove,
-      handleMouseUp,
-      handleTouchStart,
-      handleTouchMove,
-      handleTouchEnd,
-    } = useCanvasEvents({
-      canvasRef,
-      objects,
-      setObjects,
-      setStartPos,
-      setResizeHandle,
-      setIsDrawing,
-      setSelectedObject,
-      startPos,
-      resizeHandle,
-      tool,
-      brushColor,
-      brushRadius,
-      selectedObject,
-      isDrawing,
-      addToHistory: (newObjects: DrawingObject[]) => {
-        const newHistory = history.slice(0, historyIndex + 1);
-        setHistory([...newHistory, JSON.parse(JSON.stringify(newObjects))]);
-        setHistoryIndex(historyIndex + 1);
-      },
-    });
-
-    // Handle background image loading
-    useEffect(() => {
-      if (imageSrc) {
-        const img = new Image();
-        img.src = imageSrc;
-        img.onload = () => setBackgroundImage(img);
-        img.onerror = () => console.error("Failed to load image:", imageSrc);
-      } else {
-        setBackgroundImage(null);
-      }
-    }, [imageSrc]);
-
-    // Draw objects and manage animation loop
-    const drawObjects = useCallback(() => {
-      const canvas = canvasRef.current;
-      const ctx = canvas?.getContext("2d");
-      if (!canvas || !ctx) return;
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      if (backgroundImage) {
-        ctx.drawImage(backgroundImage, 0, 0, canvas.width, canvas.height);
-      }
-
-      // Create temporary canvas for compositing
-      const tempCanvas = document.createElement("canvas");
-      tempCanvas.width = canvas.width;
-      tempCanvas.height = canvas.height;
-      const tempCtx = tempCanvas.getContext("2d");
-
-      if (!tempCtx) return;
-
-      objects.forEach((obj) => {
-        tempCtx.clearRect(0, 0, tempCanvas.width, tempCanvas.height);
-
-        if (obj.type === "eraser") {
-          ctx.save();
-          ctx.globalCompositeOperation = "destination-out";
-        } else {
-          ctx.globalCompositeOperation = "source-over";
-        }
-        ctx.strokeStyle = obj.stroke;
-        ctx.lineWidth = obj.strokeWidth;
-        ctx.lineCap = "round";
-
-        switch (obj.type) {
-          case "brush":
-          case "eraser":
-            drawLine(ctx, obj);
-            break;
-          case "circle":
-            drawCircle(tempCtx, obj);
-            break;
-          case "rect":
-            drawRect(tempCtx, obj);
-            break;
-          case "arrow":
-            drawArrow(tempCtx, obj);
-            break;
-        }
-        if (obj.type === "eraser") {
-          ctx.restore();
-        }
-
-        // Draw the result to main canvas
-        ctx.drawImage(tempCanvas, 0, 0);
-      });
-
-      animationRef.current = requestAnimationFrame(drawObjects);
-    }, [objects, backgroundImage, tool, isDrawing, brushRadius]);
-
-    useEffect(() => {
-      animationRef.current = requestAnimationFrame(drawObjects);
-      return () => {
-        if (animationRef.current !== null) {
-          cancelAnimationFrame(animationRef.current);
-        }
-        animationRef.current = null; // Reset animationRef to ensure it's properly cleaned up
-      };
-    }, [drawObjects]);
-
-    // Canvas resizing on parent change
-    useEffect(() => {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        canvas.width = width;
-        canvas.height = height;
-      }
-    }, [width, height]);
+    const board = useArtBoard(options);
+
+    // Export drawing to parent components
+    useImperativeHandle(ref, () => board.api);
+
+    const position = showControls ? toolbarPosition : "hidden";
+
     // Base controls height for 100% scale
     const baseControlsHeight = 600;
     // Compute scale factor
     const scaleFactor = Number(controlsHeight) / baseControlsHeight;
 
-    // Canvas interaction handlers
-    const drawLine = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
-      if (obj.points.length < 2) return;
-      ctx.beginPath();
-      ctx.moveTo(obj.points[0].x, obj.points[0].y);
-      obj.points.forEach((p) => ctx.lineTo(p.x, p.y));
-      ctx.stroke();
-    };
-
-    const drawCircle = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
-      const [center, circumference] = obj.points;
-      if (!center || !circumference) return;
-      const radius = Math.hypot(
-        center.x - circumference.x,
-        center.y - circumference.y
-      );
-      ctx.beginPath();
-      ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI);
-      ctx.stroke();
-    };
-
-    const drawRect = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
-      const [start, end] = obj.points;
-      if (!start || !end) return;
-      ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
-    };
-
-    const drawArrow = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
-      const [start, end] = obj.points;
-      if (!start || !end) return;
-      const angle = Math.atan2(end.y - start.y, end.x - start.x);
-      const headLen = 20;
-
-      ctx.beginPath();
-      ctx.moveTo(start.x, start.y);
-      ctx.lineTo(end.x, end.y);
-      ctx.lineTo(
-        end.x - headLen * Math.cos(angle - Math.PI / 6),
-        end.y - headLen * Math.sin(angle - Math.PI / 6)
-      );
-      ctx.moveTo(end.x, end.y);
-      ctx.lineTo(
-        end.x - headLen * Math.cos(angle + Math.PI / 6),
-        end.y - headLen * Math.sin(angle + Math.PI / 6)
-      );
-      ctx.stroke();
-    };
-
-    // Export drawing to parent components
-    useImperativeHandle(ref, () => ({
-      exportDrawing: async () =>
-        canvasRef.current?.toDataURL("image/png") || "",
-    }));
-
-    // Handle color selection from default palette
-    const handleColorSelect = (color: string) => {
-      setBrushColor(color);
-    };
-
     return (
       <div className={styles.container}>
-        <div className={styles.wrapper}>
+        <div className={`${styles.wrapper} ${TOOLBAR_CLASSES[position]}`}>
           {/* Canvas */}
-          <div className={styles.canvasWrapper}>
-            <canvas
-              ref={canvasRef}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
-              onTouchStart={handleTouchStart}
-              onTouchMove={handleTouchMove}
-              onTouchEnd={handleTouchEnd}
-              style={{
-                border: "2px solid #e9ecef",
-                borderRadius: "4px",
-                backgroundColor: "#ffffff",
-                cursor: tool === "select" ? "default" : "crosshair",
-                width: width,
-                height: height,
-              }}
-            />
-          </div>
+          <ArtBoardCanvas board={board} backgroundColor={backgroundColor} />
 
           {/* Controls */}
-          <div
-            className={styles.controls}
-            style={{
-              width: 300, // fixed width for the panel, adjust as needed
-              height: controlsHeight,
-              transform: `scale(${scaleFactor})`,
-              transformOrigin: "top left",
-              overflow: "hidden", // hides overflow since we're scaling the contents
-            }}
-          >
-            <div className={styles.controlGroup}>
-              <div className={styles.colorAndTools}>
-                <label className={styles.label}>Color:</label>
-                {defaultColors && defaultColors.length > 0 ? (
-                  <div className={styles.colorPalette}>
-                    {defaultColors.map((color) => (
-                      <button
-                        key={color}
-                        className={`${styles.colorButton} ${
-                          brushColor === color ? styles.selected : ""
-                        }`}
-                        style={{ backgroundColor: color }}
-                        onClick={() => handleColorSelect(color)}
+          {position !== "hidden" && (
+            <div
+              className={styles.controls}
+              style={{
+                // fixed width for the panel beside the canvas, adjust as needed
+                width:
+                  position === "left" || position === "right" ? 300 : undefined,
+                height: controlsHeight,
+                transform: `scale(${scaleFactor})`,
+                transformOrigin: "top left",
+                overflow: "hidden", // hides overflow since we're scaling the contents
+              }}
+              // Shortcuts and the clipboard keep working after a control
+              // was clicked
+              {...board.canvas.inputProps}
+            >
+              <div className={styles.controlGroup}>
+                {!board.readOnly && (
+                  <div className={styles.colorAndTools}>
+                    <label className={styles.label}>Color:</label>
+                    {defaultColors && defaultColors.length > 0 ? (
+                      <div className={styles.colorPalette}>
+                        {defaultColors.map((color) => (
+                          <button
+                            key={color}
+                            className={`${styles.colorButton} ${
+                              board.brushColor === color ? styles.selected : ""
+                            }`}
+                            style={{ backgroundColor: color }}
+                            onClick={() => board.setBrushColor(color)}
+                          />
+                        ))}
+                      </div>
+                    ) : (
+                      <HexColorPicker
+                        color={board.brushColor}
+                        onChange={board.setBrushColor}
                       />
-                    ))}
+                    )}
+                    <FillPicker
+                      enabled={board.fillEnabled}
+                      fill={board.fill}
+                      defaultColors={defaultColors}
+                      onToggle={board.setFillEnabled}
+                      onChange={board.setFill}
+                    />
+                    <Shapes {...board.shapesProps} />
                   </div>
-                ) : (
-                  <HexColorPicker
-                    color={brushColor}
-                    onChange={(color) => setBrushColor(color)}
+                )}
+                {!board.readOnly && <Slider {...board.sliderProps} />}
+                <ActionButtons {...board.actionButtonsProps} />
+                {!board.readOnly && (
+                  <LayersPanel
+                    layers={board.layers}
+                    activeLayer={board.activeLayer}
+                    selectionCount={board.selectedObjects.length}
+                    onSelectLayer={board.setActiveLayer}
+                    onAddLayer={board.addLayer}
+                    onRenameLayer={board.renameLayer}
+                    onToggleVisible={board.toggleLayerVisible}
+                    onToggleLocked={board.toggleLayerLocked}
+                    onMoveToLayer={board.moveToLayer}
+                    onReorder={board.reorder}
                   />
                 )}
-                <Shapes shape={tool} setShape={setTool} />
               </div>
-              <Slider value={brushRadius} onChange={setBrushRadius} />
-              <ActionButtons
-                objectsLength={objects.length}
-                selectedObject={selectedObject}
-                historyIndex={historyIndex}
-                historyLength={history.length}
-                onClearCanvas={handleClearCanvas}
-                onDelete={handleDelete}
-                onUndo={undo}
-                onRedo={redo}
-                onExport={handleExportImage}
-              />
             </div>
-          </div>
+          )}
         </div>
       </div>
     );
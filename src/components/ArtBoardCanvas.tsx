@@ -0,0 +1,147 @@
+import React from "react";
+import { ArtBoardController } from "../hooks/useArtBoard";
+import styles from "../styles/ArtBoard.module.css";
+import ZoomControls from "./Tools/ZoomControls";
+import { TEXT_LINE_HEIGHT, textFont } from "../utils/text";
+import { drawingToScreen } from "../utils/view";
+
+// Width of the canvas border in CSS pixels. The drawing starts inside it.
+const CANVAS_BORDER = 2;
+
+export interface ArtBoardCanvasProps {
+  // The board to render, from `useArtBoard`
+  board: ArtBoardController;
+  // Color of the drawing area, left out of exports
+  backgroundColor?: string;
+}
+
+/**
+ * Renders only the canvas of a board created by `useArtBoard`, with its text
+ * editor and zoom controls. Keyboard shortcuts and the clipboard work while
+ * focus is within it.
+ */
+const ArtBoardCanvas: React.FC<ArtBoardCanvasProps> = ({
+  board,
+  backgroundColor = "#ffffff",
+}) => {
+  const {
+    width,
+    height,
+    view,
+    readOnly,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    zoomToFit,
+  } = board;
+  const {
+    inputProps,
+    canvasRef,
+    textareaRef,
+    cursor,
+    textEditor,
+    setTextEditor,
+    commitTextEditor,
+    cancelTextEditor,
+    handleDrop,
+    handlePanStart,
+    handlePanMove,
+    handlePanEnd,
+    handlePinchStart,
+    handlePinchMove,
+    handlePinchEnd,
+    isPinching,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handlePointerCancel,
+    handleDoubleClick,
+    cancelStroke,
+  } = board.canvas;
+
+  return (
+    <div
+      className={styles.canvasWrapper}
+      {...inputProps}
+      // Image files can be dropped on the canvas
+      onDragOver={(e) => {
+        if (readOnly || !e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+      }}
+      onDrop={handleDrop}
+    >
+      <canvas
+        ref={canvasRef}
+        // Focusable so keyboard shortcuts only reach this board
+        tabIndex={0}
+        // Panning and pinching take the pointer before the tools do
+        onPointerDown={(e) => {
+          if (e.pointerType === "touch" && isPinching()) return;
+          if (!handlePanStart(e)) handlePointerDown(e);
+        }}
+        onPointerMove={(e) => handlePanMove(e) || handlePointerMove(e)}
+        onPointerUp={(e) => handlePanEnd() || handlePointerUp(e)}
+        onPointerCancel={(e) => handlePanEnd() || handlePointerCancel(e)}
+        onDoubleClick={handleDoubleClick}
+        // Pinches are read from touch events, which list every finger.
+        // A second finger turns the stroke into a pinch.
+        onTouchStart={(e) => {
+          if (handlePinchStart(e)) cancelStroke();
+        }}
+        onTouchMove={handlePinchMove}
+        onTouchEnd={handlePinchEnd}
+        style={{
+          border: `${CANVAS_BORDER}px solid #e9ecef`,
+          borderRadius: "4px",
+          backgroundColor,
+          cursor,
+          width: width,
+          height: height,
+        }}
+      />
+      {textEditor && (
+        <textarea
+          ref={textareaRef}
+          className={styles.textEditor}
+          value={textEditor.value}
+          rows={textEditor.value.split("\n").length}
+          onChange={(e) =>
+            setTextEditor({ ...textEditor, value: e.target.value })
+          }
+          onBlur={commitTextEditor}
+          onKeyDown={(e) => {
+            // Escape cancels, Ctrl/Cmd+Enter commits
+            if (e.key === "Escape") {
+              cancelTextEditor();
+            } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+              commitTextEditor();
+            }
+          }}
+          style={{
+            left: drawingToScreen(view, textEditor).x + CANVAS_BORDER,
+            top: drawingToScreen(view, textEditor).y + CANVAS_BORDER,
+            color: textEditor.color,
+            font: textFont(textEditor.fontSize * view.scale),
+            lineHeight: TEXT_LINE_HEIGHT,
+            width: `${
+              Math.max(
+                1,
+                ...textEditor.value.split("\n").map((l) => l.length)
+              ) + 2
+            }ch`,
+          }}
+        />
+      )}
+      <ZoomControls
+        scale={view.scale}
+        onZoomIn={zoomIn}
+        onZoomOut={zoomOut}
+        onResetZoom={resetZoom}
+        onZoomToFit={zoomToFit}
+      />
+    </div>
+  );
+};
+
+export default ArtBoardCanvas;
@@ -1,91 +1,144 @@
-import { ArrowLeft, ArrowRight, Download, Trash, Trash2 } from "lucide-react";
-import React from "react";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Download,
+  FileCode,
+  ImagePlus,
+  Trash,
+  Trash2,
+} from "lucide-react";
+import React, { useRef } from "react";
 import styles from "../../styles/ActionButtons.module.css";
 
-interface ActionButtonsProps {
+export interface ActionButtonsProps {
   objectsLength: number;
-  selectedObject: number | null;
-  historyIndex: number;
-  historyLength: number;
+  selectionCount: number;
+  canUndo: boolean;
+  canRedo: boolean;
   onClearCanvas: () => void;
   onDelete: () => void;
   onUndo: () => void;
   onRedo: () => void;
   onExport: () => void;
+  onExportSVG: () => void;
+  onInsertImage: (file: File) => void;
+  // Only offer the exports
+  readOnly?: boolean;
 }
 
 const ActionButtons: React.FC<ActionButtonsProps> = ({
   objectsLength,
-  selectedObject,
-  historyIndex,
-  historyLength,
+  selectionCount,
+  canUndo,
+  canRedo,
   onClearCanvas,
   onDelete,
   onUndo,
   onRedo,
   onExport,
+  onExportSVG,
+  onInsertImage,
+  readOnly = false,
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   return (
     <>
-      <div className={styles.actionButtons}>
-        <button
-          type="button"
-          className={`${styles.actionButton} ${styles.warning} ${
-            objectsLength === 0 ? styles.disabled : ""
-          }`}
-          onClick={onClearCanvas}
-          disabled={objectsLength === 0}
-          title="Clear Canvas"
-        >
-          <Trash size={20} />
-          Clear
-        </button>
-        <button
-          type="button"
-          className={`${styles.actionButton} ${styles.warning} ${
-            selectedObject === null ? styles.disabled : ""
-          }`}
-          onClick={onDelete}
-          disabled={selectedObject === null}
-          title="Delete Selected"
-        >
-          <Trash2 size={20} />
-          Delete
-        </button>
+      {!readOnly && (
+        <>
+          <div className={styles.actionButtons}>
+            <button
+              type="button"
+              className={`${styles.actionButton} ${styles.warning} ${
+                objectsLength === 0 ? styles.disabled : ""
+              }`}
+              onClick={onClearCanvas}
+              disabled={objectsLength === 0}
+              title="Clear Canvas"
+            >
+              <Trash size={20} />
+              Clear
+            </button>
+            <button
+              type="button"
+              className={`${styles.actionButton} ${styles.warning} ${
+                selectionCount === 0 ? styles.disabled : ""
+              }`}
+              onClick={onDelete}
+              disabled={selectionCount === 0}
+              title="Delete Selected"
+            >
+              <Trash2 size={20} />
+              Delete
+            </button>
+            <button
+              type="button"
+              className={`${styles.actionButton} ${
+                !canUndo ? styles.disabled : ""
+              }`}
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="Undo"
+            >
+              <ArrowLeft size={20} />
+              Undo
+            </button>
+            <button
+              type="button"
+              className={`${styles.actionButton} ${
+                !canRedo ? styles.disabled : ""
+              }`}
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo"
+            >
+              <ArrowRight size={20} />
+              Redo
+            </button>
+          </div>
+          <button
+            type="button"
+            className={styles.exportButton}
+            onClick={() => fileInputRef.current?.click()}
+            title="Insert Image"
+          >
+            <ImagePlus size={20} />
+            Insert Image
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onInsertImage(file);
+              // Allow picking the same file again
+              e.target.value = "";
+            }}
+          />
+        </>
+      )}
+      <div className={styles.exportButtons}>
         <button
           type="button"
-          className={`${styles.actionButton} ${
-            historyIndex <= 0 ? styles.disabled : ""
-          }`}
-          onClick={onUndo}
-          disabled={historyIndex <= 0}
-          title="Undo"
+          className={styles.exportButton}
+          onClick={onExport}
+          title="Export Image"
         >
-          <ArrowLeft size={20} />
-          Undo
+          <Download size={20} />
+          Export
         </button>
         <button
           type="button"
-          className={`${styles.actionButton} ${
-            historyIndex >= historyLength - 1 ? styles.disabled : ""
-          }`}
-          onClick={onRedo}
-          disabled={historyIndex >= historyLength - 1}
-          title="Redo"
+          className={styles.exportButton}
+          onClick={onExportSVG}
+          title="Export as SVG"
         >
-          <ArrowRight size={20} />
-          Redo
+          <FileCode size={20} />
+          SVG
         </button>
       </div>
-      <button
-        type="button"
-        className={styles.exportButton}
-        onClick={onExport}
-        title="Export Image"
-      >
-        <Download size={20} />
-        Export
-      </button>
     </>
   );
 };
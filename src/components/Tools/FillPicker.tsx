@@ -0,0 +1,71 @@
+import React from "react";
+import { HexColorPicker } from "react-colorful";
+import { FillStyle } from "../ArtBoard";
+import styles from "../../styles/FillPicker.module.css";
+
+interface FillPickerProps {
+  enabled: boolean;
+  fill: FillStyle;
+  defaultColors?: string[];
+  onToggle: (enabled: boolean) => void;
+  onChange: (fill: FillStyle) => void;
+}
+
+const FillPicker: React.FC<FillPickerProps> = ({
+  enabled,
+  fill,
+  defaultColors,
+  onToggle,
+  onChange,
+}) => {
+  return (
+    <div className={styles.fillGroup}>
+      <label className={styles.toggle}>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+        />
+        Fill closed shapes
+      </label>
+      {enabled && (
+        <>
+          {defaultColors && defaultColors.length > 0 ? (
+            <div className={styles.colorPalette}>
+              {defaultColors.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  className={`${styles.colorButton} ${
+                    fill.color === color ? styles.selected : ""
+                  }`}
+                  style={{ backgroundColor: color }}
+                  onClick={() => onChange({ ...fill, color })}
+                />
+              ))}
+            </div>
+          ) : (
+            <HexColorPicker
+              className={styles.colorPicker}
+              color={fill.color}
+              onChange={(color) => onChange({ ...fill, color })}
+            />
+          )}
+          <label className={styles.label}>Opacity:</label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(fill.opacity * 100)}
+            onChange={(e) =>
+              onChange({ ...fill, opacity: Number(e.target.value) / 100 })
+            }
+            className={styles.slider}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FillPicker;
@@ -0,0 +1,178 @@
+import {
+  ArrowRightToLine,
+  BringToFront,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Eye,
+  EyeOff,
+  Layers,
+  Lock,
+  LockOpen,
+  Plus,
+  SendToBack,
+} from "lucide-react";
+import React, { useState } from "react";
+import { Layer } from "../ArtBoard";
+import { ZOrderAction } from "../../utils/layers";
+import styles from "../../styles/LayersPanel.module.css";
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayer: string;
+  selectionCount: number;
+  onSelectLayer: (id: string) => void;
+  onAddLayer: () => void;
+  onRenameLayer: (id: string, name: string) => void;
+  onToggleVisible: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+  onMoveToLayer: (id: string) => void;
+  onReorder: (action: ZOrderAction) => void;
+}
+
+// New objects only go on a visible, unlocked layer
+const isDrawable = (layer: Layer) => layer.visible && !layer.locked;
+
+const ORDER_BUTTONS: {
+  action: ZOrderAction;
+  title: string;
+  icon: React.ReactNode;
+}[] = [
+  {
+    action: "front",
+    title: "Bring to Front",
+    icon: <BringToFront size={18} />,
+  },
+  { action: "forward", title: "Bring Forward", icon: <ChevronUp size={18} /> },
+  {
+    action: "backward",
+    title: "Send Backward",
+    icon: <ChevronDown size={18} />,
+  },
+  { action: "back", title: "Send to Back", icon: <SendToBack size={18} /> },
+];
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeLayer,
+  selectionCount,
+  onSelectLayer,
+  onAddLayer,
+  onRenameLayer,
+  onToggleVisible,
+  onToggleLocked,
+  onMoveToLayer,
+  onReorder,
+}) => {
+  const [open, setOpen] = useState(false);
+  const active = layers.find((layer) => layer.id === activeLayer);
+
+  return (
+    <div className={styles.layersPanel}>
+      <button
+        type="button"
+        className={styles.header}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+        <Layers size={18} />
+        Layers
+      </button>
+      {/* Nothing is drawn on a hidden or locked active layer */}
+      {active && !isDrawable(active) && (
+        <p className={styles.warning} role="status">
+          The active layer is {active.visible ? "locked" : "hidden"}. Show and
+          unlock it, or pick another layer, to draw.
+        </p>
+      )}
+      {open && (
+        <>
+          <div className={styles.orderButtons}>
+            {ORDER_BUTTONS.map(({ action, title, icon }) => (
+              <button
+                key={action}
+                type="button"
+                className={styles.iconButton}
+                onClick={() => onReorder(action)}
+                disabled={selectionCount === 0}
+                title={title}
+              >
+                {icon}
+              </button>
+            ))}
+          </div>
+          {/* Top layer first, as it is drawn over the others */}
+          <ul className={styles.layerList}>
+            {[...layers].reverse().map((layer) => (
+              <li
+                key={layer.id}
+                className={`${styles.layerRow} ${
+                  layer.id === activeLayer ? styles.active : ""
+                } ${
+                  layer.id === activeLayer && !isDrawable(layer)
+                    ? styles.unavailable
+                    : ""
+                }`}
+                onClick={() => onSelectLayer(layer.id)}
+              >
+                <button
+                  type="button"
+                  className={styles.iconButton}
+                  // Without making the layer active through its row
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleVisible(layer.id);
+                  }}
+                  title={layer.visible ? "Hide Layer" : "Show Layer"}
+                >
+                  {layer.visible ? <Eye size={16} /> : <EyeOff size={16} />}
+                </button>
+                <button
+                  type="button"
+                  className={styles.iconButton}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleLocked(layer.id);
+                  }}
+                  title={layer.locked ? "Unlock Layer" : "Lock Layer"}
+                >
+                  {layer.locked ? <Lock size={16} /> : <LockOpen size={16} />}
+                </button>
+                <input
+                  className={styles.layerName}
+                  value={layer.name}
+                  onChange={(e) => onRenameLayer(layer.id, e.target.value)}
+                  aria-label="Layer name"
+                />
+                <button
+                  type="button"
+                  className={styles.iconButton}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMoveToLayer(layer.id);
+                  }}
+                  disabled={selectionCount === 0}
+                  title="Move Selection to Layer"
+                >
+                  <ArrowRightToLine size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            className={styles.addButton}
+            onClick={onAddLayer}
+            title="Add Layer"
+          >
+            <Plus size={18} />
+            Add Layer
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -1,14 +1,31 @@
-import { ArrowRight, Brush, Circle, Eraser, Move, Square } from "lucide-react";
+import {
+  ArrowRight,
+  Brush,
+  Circle,
+  Eraser,
+  Highlighter,
+  Minus,
+  Move,
+  Pentagon,
+  Square,
+  Type,
+} from "lucide-react";
+import { EraserMode, ToolType } from "../ArtBoard";
 import styles from "../../styles/Shapes.module.css";
 
-type ShapeType = "brush" | "circle" | "arrow" | "rect" | "select" | "eraser";
-
-interface ShapesProps {
-  shape: ShapeType;
-  setShape: (shape: ShapeType) => void;
+export interface ShapesProps {
+  shape: ToolType;
+  setShape: (shape: ToolType) => void;
+  eraserMode?: EraserMode;
+  setEraserMode?: (mode: EraserMode) => void;
 }
 
-export const Shapes = ({ shape, setShape }: ShapesProps) => {
+export const Shapes = ({
+  shape,
+  setShape,
+  eraserMode,
+  setEraserMode,
+}: ShapesProps) => {
   return (
     <div className={styles.shapesGroup}>
       <div className={styles.shapes}>
@@ -22,6 +39,16 @@ export const Shapes = ({ shape, setShape }: ShapesProps) => {
         >
           <Brush size={20} />
         </button>
+        <button
+          type="button"
+          className={`${styles.shapeButton} ${
+            shape === "highlighter" ? styles.active : ""
+          }`}
+          onClick={() => setShape("highlighter")}
+          title="Highlighter Tool: Mark up the drawing with wide, see-through strokes."
+        >
+          <Highlighter size={20} />
+        </button>
         <button
           type="button"
           className={`${styles.shapeButton} ${
@@ -32,6 +59,16 @@ export const Shapes = ({ shape, setShape }: ShapesProps) => {
         >
           <Circle size={20} />
         </button>
+        <button
+          type="button"
+          className={`${styles.shapeButton} ${
+            shape === "ellipse" ? styles.active : ""
+          }`}
+          onClick={() => setShape("ellipse")}
+          title="Ellipse Tool: Draw ellipses, or circles with Shift held."
+        >
+          <Circle size={20} style={{ transform: "scaleY(0.7)" }} />
+        </button>
         <button
           type="button"
           className={`${styles.shapeButton} ${
@@ -52,6 +89,36 @@ export const Shapes = ({ shape, setShape }: ShapesProps) => {
         >
           <ArrowRight size={20} />
         </button>
+        <button
+          type="button"
+          className={`${styles.shapeButton} ${
+            shape === "line" ? styles.active : ""
+          }`}
+          onClick={() => setShape("line")}
+          title="Line Tool: Draw straight lines."
+        >
+          <Minus size={20} />
+        </button>
+        <button
+          type="button"
+          className={`${styles.shapeButton} ${
+            shape === "polygon" ? styles.active : ""
+          }`}
+          onClick={() => setShape("polygon")}
+          title="Polygon Tool: Click to add corners, double-click to close the shape or press Enter to leave it open."
+        >
+          <Pentagon size={20} />
+        </button>
+        <button
+          type="button"
+          className={`${styles.shapeButton} ${
+            shape === "text" ? styles.active : ""
+          }`}
+          onClick={() => setShape("text")}
+          title="Text Tool: Click to write notes, double-click text to edit it."
+        >
+          <Type size={20} />
+        </button>
         <button
           type="button"
           className={`${styles.shapeButton} ${
@@ -73,6 +140,30 @@ export const Shapes = ({ shape, setShape }: ShapesProps) => {
           <Eraser size={20} />
         </button>
       </div>
+      {shape === "eraser" && eraserMode && setEraserMode && (
+        <div className={styles.modeToggle}>
+          <button
+            type="button"
+            className={`${styles.modeButton} ${
+              eraserMode === "object" ? styles.active : ""
+            }`}
+            onClick={() => setEraserMode("object")}
+            title="Object Eraser: Remove whole shapes and split strokes."
+          >
+            Objects
+          </button>
+          <button
+            type="button"
+            className={`${styles.modeButton} ${
+              eraserMode === "pixel" ? styles.active : ""
+            }`}
+            onClick={() => setEraserMode("pixel")}
+            title="Pixel Eraser: Paint out parts of the drawing."
+          >
+            Pixels
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,7 @@
 import React from "react";
 import styles from "../../styles/Slider.module.css";
 
-interface SliderProps {
+export interface SliderProps {
   value: number;
   onChange: (value: number) => void;
 }
@@ -0,0 +1,58 @@
+import { Maximize, ZoomIn, ZoomOut } from "lucide-react";
+import React from "react";
+import styles from "../../styles/ZoomControls.module.css";
+
+interface ZoomControlsProps {
+  scale: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToFit: () => void;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({
+  scale,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onZoomToFit,
+}) => {
+  return (
+    <div className={styles.zoomControls}>
+      <button
+        type="button"
+        className={styles.zoomButton}
+        onClick={onZoomOut}
+        title="Zoom Out"
+      >
+        <ZoomOut size={16} />
+      </button>
+      <button
+        type="button"
+        className={`${styles.zoomButton} ${styles.zoomLevel}`}
+        onClick={onResetZoom}
+        title="Zoom to 100%"
+      >
+        {Math.round(scale * 100)}%
+      </button>
+      <button
+        type="button"
+        className={styles.zoomButton}
+        onClick={onZoomIn}
+        title="Zoom In"
+      >
+        <ZoomIn size={16} />
+      </button>
+      <button
+        type="button"
+        className={styles.zoomButton}
+        onClick={onZoomToFit}
+        title="Zoom to Fit"
+      >
+        <Maximize size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default ZoomControls;
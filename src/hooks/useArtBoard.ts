@@ -0,0 +1,941 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ArtBoardProps,
+  ArtBoardRef,
+  BrushOptions,
+  DrawingObject,
+  EraserMode,
+  ExportOptions,
+  FillStyle,
+  Guide,
+  Marquee,
+  ObjectsChangeReason,
+  TextEditor,
+  ToolType,
+} from "../components/ArtBoard";
+import { ActionButtonsProps } from "../components/Tools/ActionButtons";
+import { ShapesProps } from "../components/Tools/Shapes";
+import { SliderProps } from "../components/Tools/Slider";
+import { useCanvasEvents } from "./useCanvasEvents";
+import { useCanvasHandlers } from "./useCanvasHandlers";
+import { useClipboard } from "./useClipboard";
+import { useDevicePixelRatio } from "./useDevicePixelRatio";
+import { useHistory } from "./useHistory";
+import { useImageImport } from "./useImageImport";
+import { useKeyboardShortcuts } from "./useKeyboardShortcuts";
+import { useLayers } from "./useLayers";
+import { useViewport } from "./useViewport";
+import {
+  getHandlePositions,
+  HANDLE_CURSORS,
+  HANDLE_SIZE,
+} from "../utils/handles";
+import { keepSource, onImageLoad } from "../utils/images";
+import { isEditable, visibleObjects } from "../utils/layers";
+import {
+  createSceneCache,
+  drawScene,
+  objectsToDataURL,
+  SceneCache,
+  sceneToDataURL,
+} from "../utils/render";
+import {
+  parseScene,
+  SceneDocument,
+  SceneError,
+  serializeScene,
+} from "../utils/scene";
+import { objectsToSVG } from "../utils/svg";
+import { scaleView } from "../utils/view";
+
+// Whether two object lists hold the same objects, comparing by value those
+// that are copies, such as a value the parent cloned
+const sameObjects = (a: DrawingObject[], b: DrawingObject[]) =>
+  a === b ||
+  (a.length === b.length &&
+    a.every(
+      (obj, i) => obj === b[i] || JSON.stringify(obj) === JSON.stringify(b[i])
+    ));
+
+// Empties the selection, keeping the same list if it already is empty so
+// effects that clear it do not re-render
+const clearSelection = (prev: string[]) => (prev.length > 0 ? [] : prev);
+
+// Overlays are drawn through the view, but keep their size on screen: `pixel`
+// is the length of one CSS pixel in drawing units.
+
+const drawSelectionBox = (
+  ctx: CanvasRenderingContext2D,
+  obj: DrawingObject,
+  pixel: number
+) => {
+  const padding = obj.strokeWidth / 2 + 2 * pixel;
+  ctx.save();
+  ctx.globalCompositeOperation = "source-over";
+  ctx.strokeStyle = "#2563eb";
+  ctx.lineWidth = pixel;
+  ctx.setLineDash([4 * pixel, 4 * pixel]);
+  ctx.strokeRect(
+    obj.bounds.x - padding,
+    obj.bounds.y - padding,
+    obj.bounds.width + padding * 2,
+    obj.bounds.height + padding * 2
+  );
+  ctx.restore();
+};
+
+const drawMarquee = (
+  ctx: CanvasRenderingContext2D,
+  box: Marquee,
+  pixel: number
+) => {
+  const x = Math.min(box.start.x, box.end.x);
+  const y = Math.min(box.start.y, box.end.y);
+  const w = Math.abs(box.end.x - box.start.x);
+  const h = Math.abs(box.end.y - box.start.y);
+  ctx.save();
+  ctx.globalCompositeOperation = "source-over";
+  ctx.fillStyle = "rgba(37, 99, 235, 0.1)";
+  ctx.strokeStyle = "#2563eb";
+  ctx.lineWidth = pixel;
+  ctx.setLineDash([4 * pixel, 4 * pixel]);
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeRect(x, y, w, h);
+  ctx.restore();
+};
+
+const drawGuide = (
+  ctx: CanvasRenderingContext2D,
+  guide: Guide,
+  pixel: number
+) => {
+  ctx.save();
+  ctx.globalCompositeOperation = "source-over";
+  ctx.strokeStyle = "#ec4899";
+  ctx.lineWidth = pixel;
+  ctx.beginPath();
+  if (guide.axis === "x") {
+    ctx.moveTo(guide.position, guide.start);
+    ctx.lineTo(guide.position, guide.end);
+  } else {
+    ctx.moveTo(guide.start, guide.position);
+    ctx.lineTo(guide.end, guide.position);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawHandles = (
+  ctx: CanvasRenderingContext2D,
+  obj: DrawingObject,
+  pixel: number
+) => {
+  ctx.save();
+  ctx.globalCompositeOperation = "source-over";
+  ctx.fillStyle = "#ffffff";
+  ctx.strokeStyle = "#2563eb";
+  ctx.lineWidth = pixel;
+  const size = HANDLE_SIZE * pixel;
+  getHandlePositions(obj.bounds).forEach(({ x, y }) => {
+    ctx.fillRect(x - size / 2, y - size / 2, size, size);
+    ctx.strokeRect(x - size / 2, y - size / 2, size, size);
+  });
+  ctx.restore();
+};
+
+/**
+ * Options of `useArtBoard`: the props of ArtBoard that are not about how
+ * it lays out its canvas and controls.
+ */
+export type ArtBoardOptions = Omit<
+  ArtBoardProps,
+  | "backgroundColor"
+  | "controlsHeight"
+  | "toolbarPosition"
+  | "showControls"
+  | "defaultColors"
+>;
+
+/**
+ * Holds the drawing, tools, history, layers and view of a board, for
+ * building one with a custom layout. Render the canvas by passing the result
+ * to `ArtBoardCanvas`, and wire controls to it, such as
+ * `<Shapes {...board.shapesProps} />`. ArtBoard itself is built this way.
+ *
+ * @example
+ * const board = useArtBoard({ width: 640, height: 480 });
+ * return (
+ *   <>
+ *     <Shapes {...board.shapesProps} />
+ *     <ArtBoardCanvas board={board} />
+ *     <button onClick={() => board.api.exportDrawing()}>Save</button>
+ *   </>
+ * );
+ */
+export const useArtBoard = ({
+  saveData,
+  imageSrc: imageSrcProp,
+  backgroundFit = "stretch",
+  resizeToBackground = false,
+  crossOrigin = "anonymous",
+  onBackgroundLoad,
+  onBackgroundError,
+  width: widthOption,
+  height: heightOption,
+  onLoadError,
+  value,
+  onChange,
+  eraserMode: initialEraserMode = "object",
+  shortcuts,
+  historyLimit,
+  smoothing = 0,
+  gridSize = 0,
+  assets,
+  readOnly = false,
+  onExportError,
+  onImageError,
+}: ArtBoardOptions = {}) => {
+  // Canvas reference
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const sceneCacheRef = useRef<SceneCache | null>(null);
+
+  // State for drawable objects and user actions
+  const [internalObjects, setObjects] = useState<DrawingObject[]>(value ?? []);
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  // In controlled mode the parent's value wins, except while a stroke or
+  // move is in progress and has not been committed yet.
+  const isControlled = value !== undefined;
+  const objects = isControlled && !isDrawing ? value : internalObjects;
+
+  // Tool state management
+  const [tool, setTool] = useState<ToolType>("brush");
+  const [brushColor, setBrushColor] = useState("#000000");
+  const [brushRadius, setBrushRadius] = useState(5);
+  const [eraserMode, setEraserMode] = useState<EraserMode>(initialEraserMode);
+  const [fillEnabled, setFillEnabled] = useState(false);
+  const [fill, setFill] = useState<FillStyle>({
+    color: "#facc15",
+    opacity: 0.3,
+  });
+
+  // Selection and history management
+  // The selection is kept by object id, so it stays on the same objects
+  // when others are added or removed, and looked up by index where needed
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectedObjects = useMemo(() => {
+    const indexes = new Map(objects.map((obj, index) => [obj.id, index]));
+    return selectedIds.flatMap((id) => {
+      const index = indexes.get(id);
+      return index === undefined ? [] : [index];
+    });
+  }, [objects, selectedIds]);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [startPos, setStartPos] = useState<{ x: number; y: number } | null>(
+    null
+  );
+  const [resizeHandle, setResizeHandle] = useState<number | null>(null);
+  const [hoverHandle, setHoverHandle] = useState<number | null>(null);
+  const [textEditor, setTextEditor] = useState<TextEditor | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const {
+    canUndo,
+    canRedo,
+    pushHistory,
+    resetHistory,
+    stepHistory,
+    canStep,
+    getCurrent,
+  } = useHistory(value ?? [], historyLimit);
+
+  // Follow the parent's value once nothing is in progress. A new value that
+  // is not the current history entry, such as a document fetched after mount
+  // or an older one the parent restored, starts the history over from it.
+  const lastValueRef = useRef(value);
+  useEffect(() => {
+    if (value === undefined || isDrawing) return;
+    setObjects(value);
+    const changed = value !== lastValueRef.current;
+    lastValueRef.current = value;
+    if (!changed || sameObjects(value, getCurrent())) return;
+    setSelectedIds([]);
+    resetHistory(value);
+  }, [value, isDrawing, getCurrent, resetHistory]);
+
+  // Layers, bottom to top, and the one new objects go on
+  const {
+    layers,
+    setLayers,
+    activeLayer,
+    setActiveLayer,
+    addLayer,
+    renameLayer,
+    toggleLayerVisible,
+    toggleLayerLocked,
+  } = useLayers();
+
+  // Canvas size and background stored in the loaded `saveData`, used where
+  // the matching props are not given
+  const [savedScene, setSavedScene] = useState<Pick<
+    SceneDocument,
+    "canvas" | "background"
+  > | null>(null);
+  const imageSrc = imageSrcProp ?? savedScene?.background.imageSrc ?? undefined;
+  // Documents migrated from the legacy format store no size
+  const widthProp = widthOption ?? (savedScene?.canvas.width || 800);
+  const heightProp = heightOption ?? (savedScene?.canvas.height || 600);
+
+  // State for the background image
+  const [backgroundImage, setBackgroundImage] =
+    useState<HTMLImageElement | null>(null);
+
+  // The board takes the size of its background when asked to
+  const fitsBackground = resizeToBackground && backgroundImage !== null;
+  const width = fitsBackground ? backgroundImage.naturalWidth : widthProp;
+  const height = fitsBackground ? backgroundImage.naturalHeight : heightProp;
+
+  // Zoom and pan
+  const {
+    view,
+    setView,
+    spaceHeld,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    zoomToFit,
+    handleKeyDown: handleViewKeyDown,
+    handleKeyUp: handleViewKeyUp,
+    handlePanStart,
+    handlePanMove,
+    handlePanEnd,
+    handlePinchStart,
+    handlePinchMove,
+    handlePinchEnd,
+    isPinching,
+  } = useViewport({
+    canvasRef,
+    objects,
+    width,
+    height,
+    dragToPan: readOnly,
+  });
+  const pixelRatio = useDevicePixelRatio();
+
+  // Where image objects load their images from
+  const resolveAsset = assets?.resolve ?? keepSource;
+
+  // Handlers for canvas interactions
+  const {
+    undo,
+    redo,
+    handleDelete,
+    handleDeselect,
+    handleNudge,
+    handleRestyle,
+    handleReorder,
+    handleMoveToLayer,
+    handleCopy,
+    handlePaste,
+    handleInsertImage,
+    handleDuplicate,
+    getObjects,
+    handleAddObject,
+    handleUpdateObject,
+    handleRemoveObject,
+    handleClearCanvas,
+    handleExportImage,
+    handleExportSVG,
+    handleTextCommit,
+  } = useCanvasHandlers({
+    objects,
+    setObjects,
+    setSelectedIds,
+    selectedObjects,
+    pushHistory,
+    stepHistory,
+    onChange,
+    imageSrc,
+    backgroundImage,
+    backgroundFit,
+    width,
+    height,
+    layers,
+    activeLayer,
+    view,
+    resolveAsset,
+    crossOrigin,
+    // Exports from the controls have no caller to reject to
+    onExportError: (error) => {
+      if (onExportError) {
+        onExportError(error);
+      } else {
+        console.error(error);
+      }
+    },
+  });
+
+  const {
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handlePointerCancel,
+    handleDoubleClick,
+    handleKeyDown: handleDrawingKeyDown,
+    getCanvasPos,
+    finishPolygon,
+    cancelStroke,
+  } = useCanvasEvents({
+    canvasRef,
+    objects,
+    setObjects,
+    setStartPos,
+    setResizeHandle,
+    setHoverHandle,
+    setIsDrawing,
+    setSelectedIds,
+    setMarquee,
+    setGuides,
+    setTextEditor,
+    startPos,
+    resizeHandle,
+    tool,
+    brushColor,
+    brushRadius,
+    fill: fillEnabled ? fill : null,
+    eraserMode,
+    selectedObjects,
+    marquee,
+    textEditor,
+    isDrawing,
+    view,
+    smoothing,
+    gridSize,
+    layers,
+    activeLayer,
+    readOnly,
+    addToHistory: (
+      newObjects: DrawingObject[],
+      reason: ObjectsChangeReason
+    ) => {
+      pushHistory(newObjects);
+      onChange?.(newObjects, reason);
+    },
+  });
+
+  const handleShortcutKeyDown = useKeyboardShortcuts({
+    shortcuts,
+    enabled: !isDrawing && !readOnly,
+    undo,
+    redo,
+    handleDelete,
+    handleDeselect,
+    handleDuplicate,
+    handleNudge,
+    handleReorder,
+    setTool,
+  });
+
+  // Pasted and inserted objects are selected, which only shows in the
+  // select tool
+  const importImage = useImageImport({
+    assets,
+    crossOrigin,
+    handleInsertImage,
+    onInserted: () => setTool("select"),
+    onError: (error) => {
+      if (onImageError) {
+        onImageError(error);
+      } else {
+        console.error(error);
+      }
+    },
+  });
+
+  const clipboard = useClipboard({
+    enabled: !isDrawing && !readOnly,
+    getSelection: handleCopy,
+    renderSelection: (copied) =>
+      objectsToDataURL(copied, resolveAsset, crossOrigin),
+    handleDelete,
+    handlePaste: (pasted) => {
+      if (handlePaste(pasted)) setTool("select");
+    },
+    handlePasteImage: (file) => importImage(file, null, "paste"),
+  });
+
+  // Add image files dropped on the canvas where they were dropped
+  const handleDrop = async (e: React.DragEvent) => {
+    if (readOnly) return;
+    const files = Array.from(e.dataTransfer.files).filter((file) =>
+      file.type.startsWith("image/")
+    );
+    if (files.length === 0) return;
+    e.preventDefault();
+    const at = getCanvasPos(e);
+    for (const file of files) await importImage(file, at, "insert");
+  };
+
+  // Focus the text editor once the click that opened it has finished
+  const isEditingText = textEditor !== null;
+  useEffect(() => {
+    if (!isEditingText) return;
+    const frame = requestAnimationFrame(() => textareaRef.current?.focus());
+    return () => cancelAnimationFrame(frame);
+  }, [isEditingText]);
+
+  // Mirrors textEditor so a blur after commit or cancel is a no-op
+  const textEditorRef = useRef<TextEditor | null>(null);
+  textEditorRef.current = textEditor;
+
+  const commitTextEditor = useCallback(() => {
+    const editor = textEditorRef.current;
+    if (!editor) return;
+    textEditorRef.current = null;
+    handleTextCommit(editor);
+    setTextEditor(null);
+  }, [handleTextCommit]);
+
+  const cancelTextEditor = () => {
+    textEditorRef.current = null;
+    setTextEditor(null);
+  };
+
+  // Selection only lives in the select tool, and a polygon being drawn is
+  // kept open when switching away from its tool
+  useEffect(() => {
+    if (tool !== "polygon") finishPolygon(false);
+  }, [tool, finishPolygon]);
+  useEffect(() => {
+    if (tool === "select") return;
+    setSelectedIds(clearSelection);
+    setHoverHandle(null);
+  }, [tool]);
+
+  // Turning read-only keeps what was being drawn or typed, and lets go of
+  // the selection
+  useEffect(() => {
+    if (!readOnly) return;
+    finishPolygon(false);
+    commitTextEditor();
+    setSelectedIds(clearSelection);
+    setHoverHandle(null);
+  }, [readOnly, finishPolygon, commitTextEditor]);
+
+  // Objects on hidden or locked layers cannot stay selected
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const kept = prev.filter((id) => {
+        const obj = objects.find((o) => o.id === id);
+        return obj && isEditable(obj, layers);
+      });
+      return kept.length === prev.length ? prev : kept;
+    });
+  }, [objects, layers]);
+
+  // The latest callbacks, for effects that should only re-run when what they
+  // load changes, not when the parent passes new functions
+  const callbacksRef = useRef({
+    onChange,
+    onLoadError,
+    onBackgroundLoad,
+    onBackgroundError,
+  });
+  callbacksRef.current = {
+    onChange,
+    onLoadError,
+    onBackgroundLoad,
+    onBackgroundError,
+  };
+
+  // Hydrate objects and history from saved scene data
+  useEffect(() => {
+    if (!saveData) return;
+    try {
+      const scene = parseScene(saveData);
+      setObjects(scene.objects);
+      setLayers(scene.layers);
+      setSavedScene({ canvas: scene.canvas, background: scene.background });
+      setSelectedIds([]);
+      resetHistory(scene.objects);
+      callbacksRef.current.onChange?.(scene.objects, "load");
+    } catch (error) {
+      if (!(error instanceof SceneError)) throw error;
+      const { onLoadError } = callbacksRef.current;
+      if (onLoadError) {
+        onLoadError(error);
+      } else {
+        console.error("Failed to load saveData:", error);
+      }
+    }
+  }, [saveData, setLayers, resetHistory]);
+
+  // Image objects are drawn once their image loads, so repaint from
+  // scratch each time one does
+  const [imageLoads, setImageLoads] = useState(0);
+  useEffect(
+    () =>
+      onImageLoad(() => {
+        sceneCacheRef.current = null;
+        setImageLoads((count) => count + 1);
+      }),
+    []
+  );
+
+  // Handle background image loading. A load that finishes after the
+  // source has changed again is ignored.
+  useEffect(() => {
+    if (!imageSrc) {
+      setBackgroundImage(null);
+      return;
+    }
+    let current = true;
+    const img = new Image();
+    if (crossOrigin !== null) img.crossOrigin = crossOrigin;
+    img.onload = () => {
+      if (!current) return;
+      setBackgroundImage(img);
+      callbacksRef.current.onBackgroundLoad?.(img);
+    };
+    img.onerror = () => {
+      if (!current) return;
+      setBackgroundImage(null);
+      const error = new Error(`Failed to load image: ${imageSrc}`);
+      const { onBackgroundError } = callbacksRef.current;
+      if (onBackgroundError) {
+        onBackgroundError(error);
+      } else {
+        console.error(error);
+      }
+    };
+    img.src = imageSrc;
+    return () => {
+      current = false;
+    };
+  }, [imageSrc, crossOrigin]);
+
+  // Draw the background, objects and selection overlays
+  const drawObjects = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    if (!sceneCacheRef.current) sceneCacheRef.current = createSceneCache();
+
+    // The backing store has `pixelRatio` pixels per CSS pixel
+    const deviceView = scaleView(view, pixelRatio);
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Shade what lies outside the drawing area when zoomed out or panned
+    if (view.scale !== 1 || view.x !== 0 || view.y !== 0) {
+      ctx.fillStyle = "#f1f3f5";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.clearRect(
+        deviceView.x,
+        deviceView.y,
+        width * deviceView.scale,
+        height * deviceView.scale
+      );
+    }
+
+    drawScene(
+      ctx,
+      {
+        objects,
+        backgroundImage,
+        backgroundFit,
+        width,
+        height,
+        view: deviceView,
+        // The text being edited is shown by the inline editor instead
+        skipIndex: textEditor?.id
+          ? objects.findIndex((obj) => obj.id === textEditor.id)
+          : null,
+        layers,
+        gridSize,
+        resolveAsset,
+        crossOrigin,
+        // A brush, eraser or shape drag appends the object it draws
+        inProgress:
+          isDrawing &&
+          tool !== "select" &&
+          !(tool === "eraser" && eraserMode === "object"),
+      },
+      sceneCacheRef.current
+    );
+
+    // Selection highlight, with resize handles for a single selection
+    ctx.setTransform(
+      deviceView.scale,
+      0,
+      0,
+      deviceView.scale,
+      deviceView.x,
+      deviceView.y
+    );
+    if (tool === "select") {
+      const pixel = 1 / view.scale;
+      selectedObjects.forEach((index) => {
+        if (objects[index]) drawSelectionBox(ctx, objects[index], pixel);
+      });
+      if (selectedObjects.length === 1 && objects[selectedObjects[0]]) {
+        drawHandles(ctx, objects[selectedObjects[0]], pixel);
+      }
+      if (marquee) drawMarquee(ctx, marquee, pixel);
+      guides.forEach((guide) => drawGuide(ctx, guide, pixel));
+    }
+  }, [
+    objects,
+    backgroundImage,
+    backgroundFit,
+    tool,
+    isDrawing,
+    eraserMode,
+    selectedObjects,
+    marquee,
+    guides,
+    textEditor,
+    layers,
+    view,
+    width,
+    height,
+    gridSize,
+    pixelRatio,
+    resolveAsset,
+    crossOrigin,
+  ]);
+
+  // Repaint once whenever anything drawObjects depends on changes, or an
+  // image loads. Changes within the same frame share one repaint.
+  useEffect(() => {
+    frameRef.current = requestAnimationFrame(drawObjects);
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
+      frameRef.current = null;
+    };
+  }, [drawObjects, imageLoads]);
+
+  // Canvas resizing on parent change. The backing store is scaled by the
+  // device pixel ratio while the element keeps its CSS size, so drawings
+  // stay sharp on high-DPI displays.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas) {
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+    }
+  }, [width, height, pixelRatio]);
+  // Cursor follows the handle being dragged or hovered
+  const activeHandle = resizeHandle ?? hoverHandle;
+  let cursor = "crosshair";
+  if (isPanning) {
+    cursor = "grabbing";
+  } else if (spaceHeld || readOnly) {
+    cursor = "grab";
+  } else if (tool === "text") {
+    cursor = "text";
+  } else if (tool === "select") {
+    cursor = activeHandle !== null ? HANDLE_CURSORS[activeHandle] : "default";
+  }
+
+  // The imperative API, exposed as the ref of ArtBoard. Exports render the
+  // drawing at 100%, whatever the current view
+  const api: ArtBoardRef = {
+    exportDrawing: async (options?: ExportOptions) =>
+      sceneToDataURL(
+        {
+          objects: visibleObjects(objects, layers),
+          backgroundImage,
+          backgroundFit,
+          width,
+          height,
+          resolveAsset,
+          crossOrigin,
+        },
+        options
+      ),
+    serialize: () =>
+      serializeScene({ objects, width, height, imageSrc, layers }),
+    exportSVG: async () =>
+      objectsToSVG({
+        objects: visibleObjects(objects, layers),
+        width,
+        height,
+        imageSrc,
+        backgroundFit,
+        backgroundSize: backgroundImage
+          ? {
+              width: backgroundImage.naturalWidth,
+              height: backgroundImage.naturalHeight,
+            }
+          : undefined,
+        resolveAsset,
+      }),
+    getView: () => view,
+    setView,
+    canUndo: () => canStep(-1),
+    canRedo: () => canStep(1),
+    undo,
+    redo,
+    getObjects,
+    addObject: handleAddObject,
+    updateObject: handleUpdateObject,
+    removeObject: handleRemoveObject,
+    clear: handleClearCanvas,
+    setTool,
+    setBrush: ({ color, radius }: BrushOptions) => {
+      if (color !== undefined) setBrushColor(color);
+      if (radius !== undefined) setBrushRadius(radius);
+    },
+  };
+
+  // Handle color selection, recoloring the selection if there is one
+  const handleColorSelect = (color: string) => {
+    setBrushColor(color);
+    handleRestyle({ stroke: color });
+  };
+
+  // Handle fill changes, refilling the selection if there is one
+  const handleFillToggle = (enabled: boolean) => {
+    setFillEnabled(enabled);
+    handleRestyle({ fill: enabled ? fill : null });
+  };
+
+  const handleFillChange = (newFill: FillStyle) => {
+    setFill(newFill);
+    if (fillEnabled) handleRestyle({ fill: newFill });
+  };
+
+  // Keys go to a polygon being drawn first, then to the view and shortcuts
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (handleDrawingKeyDown(e)) return;
+    handleViewKeyDown(e);
+    handleShortcutKeyDown(e);
+  };
+
+  // Keyboard and clipboard input, handled on every element focus can be in
+  // within the board: the canvas, and the controls around it
+  const inputProps = {
+    onKeyDown: handleKeyDown,
+    onKeyUp: handleViewKeyUp,
+    onCopy: clipboard.handleCopy,
+    onCut: clipboard.handleCut,
+    onPaste: clipboard.handlePaste,
+  };
+
+  const insertImage = (file: File) => importImage(file, null, "insert");
+
+  // Props for the building blocks that make up the controls
+  const shapesProps: ShapesProps = {
+    shape: tool,
+    setShape: setTool,
+    eraserMode,
+    setEraserMode,
+  };
+  const sliderProps: SliderProps = {
+    value: brushRadius,
+    onChange: setBrushRadius,
+  };
+  const actionButtonsProps: ActionButtonsProps = {
+    objectsLength: objects.length,
+    selectionCount: selectedObjects.length,
+    canUndo,
+    canRedo,
+    onClearCanvas: handleClearCanvas,
+    onDelete: handleDelete,
+    onUndo: undo,
+    onRedo: redo,
+    onExport: handleExportImage,
+    onExportSVG: handleExportSVG,
+    onInsertImage: insertImage,
+    readOnly,
+  };
+
+  return {
+    api,
+    shapesProps,
+    sliderProps,
+    actionButtonsProps,
+
+    // Drawing and tool state
+    objects,
+    selectedIds,
+    selectedObjects,
+    tool,
+    brushColor,
+    brushRadius,
+    eraserMode,
+    fillEnabled,
+    fill,
+    layers,
+    activeLayer,
+    view,
+    width,
+    height,
+    canUndo,
+    canRedo,
+    readOnly,
+
+    // Color and fill changes also restyle the selection
+    setTool,
+    setBrushColor: handleColorSelect,
+    setBrushRadius,
+    setEraserMode,
+    setFillEnabled: handleFillToggle,
+    setFill: handleFillChange,
+    setActiveLayer,
+    addLayer,
+    renameLayer,
+    toggleLayerVisible,
+    toggleLayerLocked,
+    moveToLayer: handleMoveToLayer,
+    reorder: handleReorder,
+    undo,
+    redo,
+    deleteSelection: handleDelete,
+    clear: handleClearCanvas,
+    exportImage: handleExportImage,
+    exportSVG: handleExportSVG,
+    insertImage,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    zoomToFit,
+
+    // What ArtBoardCanvas renders and listens with
+    canvas: {
+      inputProps,
+      canvasRef,
+      textareaRef,
+      cursor,
+      textEditor,
+      setTextEditor,
+      commitTextEditor,
+      cancelTextEditor,
+      handleDrop,
+      handlePanStart,
+      handlePanMove,
+      handlePanEnd,
+      handlePinchStart,
+      handlePinchMove,
+      handlePinchEnd,
+      isPinching,
+      handlePointerDown,
+      handlePointerMove,
+      handlePointerUp,
+      handlePointerCancel,
+      handleDoubleClick,
+      cancelStroke,
+    },
+  };
+};
+
+/**
+ * A board created by `useArtBoard`.
+ */
+export type ArtBoardController = ReturnType<typeof useArtBoard>;
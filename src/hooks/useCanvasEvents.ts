@@ -1,5 +1,56 @@
-import { useCallback } from "react";
-import { DrawingObject } from "../components/ArtBoard";
+import { useCallback, useRef } from "react";
+import {
+  DrawingObject,
+  EraserMode,
+  FillStyle,
+  Guide,
+  Layer,
+  Marquee,
+  ObjectsChangeReason,
+  Point,
+  TextEditor,
+  ToolType,
+  View,
+} from "../components/ArtBoard";
+import { eraseObjects } from "../utils/eraser";
+import { getHandleAtPoint, moveObject, resizeObject } from "../utils/handles";
+import { getObjectBounds } from "../utils/hitTest";
+import { createObjectId } from "../utils/id";
+import { isEditable, objectAt, visibleObjects } from "../utils/layers";
+import { simplifyPoints } from "../utils/stroke";
+import { DEFAULT_FONT_SIZE, fontSizeFromRadius } from "../utils/text";
+import {
+  HIGHLIGHTER_WIDTH_FACTOR,
+  isFillable,
+  isFreehand,
+} from "../utils/shapes";
+import {
+  alignBounds,
+  constrainShape,
+  GUIDE_THRESHOLD,
+  snapToGrid,
+  unionBounds,
+} from "../utils/snap";
+import { screenToDrawing } from "../utils/view";
+
+// How long after the last pen event touches are taken for a resting palm
+const PALM_REJECTION_MS = 1000;
+
+// Tools whose points snap to the grid
+const SHAPE_TOOLS: ToolType[] = [
+  "circle",
+  "ellipse",
+  "rect",
+  "arrow",
+  "line",
+  "polygon",
+];
+
+// Pen strokes record pressure so they can be drawn with a varying width
+const pointFromEvent = (
+  e: React.PointerEvent<HTMLCanvasElement>,
+  pos: { x: number; y: number }
+): Point => (e.pointerType === "pen" ? { ...pos, pressure: e.pressure } : pos);
 
 interface CanvasEventsProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
@@ -9,16 +60,34 @@ interface CanvasEventsProps {
     React.SetStateAction<{ x: number; y: number } | null>
   >;
   setResizeHandle: React.Dispatch<React.SetStateAction<number | null>>;
+  setHoverHandle: React.Dispatch<React.SetStateAction<number | null>>;
   setIsDrawing: React.Dispatch<React.SetStateAction<boolean>>;
-  setSelectedObject: React.Dispatch<React.SetStateAction<number | null>>;
+  setSelectedIds: React.Dispatch<React.SetStateAction<string[]>>;
+  setMarquee: React.Dispatch<React.SetStateAction<Marquee | null>>;
+  setGuides: React.Dispatch<React.SetStateAction<Guide[]>>;
+  setTextEditor: React.Dispatch<React.SetStateAction<TextEditor | null>>;
   startPos: { x: number; y: number } | null;
   resizeHandle: number | null;
-  tool: "brush" | "circle" | "arrow" | "rect" | "select" | "eraser";
+  tool: ToolType;
   brushColor: string;
   brushRadius: number;
-  selectedObject: number | null;
+  fill: FillStyle | null;
+  eraserMode: EraserMode;
+  selectedObjects: number[]; // Indexes in `objects` of the selected objects
+  marquee: Marquee | null;
+  textEditor: TextEditor | null;
   isDrawing: boolean;
-  addToHistory: (newObjects: DrawingObject[]) => void;
+  view: View;
+  smoothing: number;
+  gridSize: number;
+  layers: Layer[];
+  activeLayer: string;
+  // Pointer input only moves the view, never the drawing
+  readOnly: boolean;
+  addToHistory: (
+    newObjects: DrawingObject[],
+    reason: ObjectsChangeReason
+  ) => void;
 }
 
 export const useCanvasEvents = ({
@@ -27,129 +96,577 @@ export const useCanvasEvents = ({
   setObjects,
   setStartPos,
   setResizeHandle,
+  setHoverHandle,
   setIsDrawing,
-  setSelectedObject,
+  setSelectedIds,
+  setMarquee,
+  setGuides,
+  setTextEditor,
   startPos,
   resizeHandle,
   tool,
   brushColor,
   brushRadius,
-  selectedObject,
+  fill,
+  eraserMode,
+  selectedObjects,
+  marquee,
+  textEditor,
   isDrawing,
+  view,
+  smoothing,
+  gridSize,
+  layers,
+  activeLayer,
+  readOnly,
   addToHistory,
 }: CanvasEventsProps) => {
-  // Get mouse position relative to the canvas
+  // Whether the current select or object-eraser drag has changed any object
+  const hasMovedRef = useRef(false);
+  // The object being resized as it was when its handle was grabbed. Each
+  // move resizes from it, so rounding and arrow heads do not build up.
+  const resizeStartRef = useRef<DrawingObject | null>(null);
+
+  // The pointer that started the current stroke; other pointers are ignored
+  // until it lifts
+  const activePointerRef = useRef<{ id: number; type: string } | null>(null);
+  // Time stamp of the last pen event, for palm rejection
+  const lastPenRef = useRef(-Infinity);
+
+  // Object eraser removes shapes and splits strokes instead of painting
+  const isObjectEraser = tool === "eraser" && eraserMode === "object";
+
+  // Nothing new is drawn on a hidden or locked layer
+  const canDraw = layers.some(
+    (layer) => layer.id === activeLayer && layer.visible && !layer.locked
+  );
+  const canErase = useCallback(
+    (obj: DrawingObject) => isEditable(obj, layers),
+    [layers]
+  );
+
+  // Snap a point to the grid unless Alt is held
+  const snap = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>, pos: { x: number; y: number }) =>
+      e.altKey ? pos : snapToGrid(pos, gridSize),
+    [gridSize]
+  );
+
+  // Get mouse position in drawing coordinates, undoing the zoom and pan
   const getCanvasPos = useCallback(
-    (
-      event:
-        | React.MouseEvent<HTMLCanvasElement>
-        | React.TouchEvent<HTMLCanvasElement>
-    ) => {
+    (event: { clientX: number; clientY: number }) => {
       const canvas = canvasRef.current;
       if (!canvas) return { x: 0, y: 0 };
 
+      // The drawing starts inside the canvas border
       const rect = canvas.getBoundingClientRect();
-      let clientX: number;
-      let clientY: number;
+      return screenToDrawing(view, {
+        x: event.clientX - rect.left - canvas.clientLeft,
+        y: event.clientY - rect.top - canvas.clientTop,
+      });
+    },
+    [canvasRef, view]
+  );
 
-      if ("touches" in event) {
-        clientX = event.touches[0].clientX;
-        clientY = event.touches[0].clientY;
-      } else {
-        clientX = event.clientX;
-        clientY = event.clientY;
+  // Open the inline editor on the topmost text object at `pos`, or for new
+  // text there when `allowNew` is set
+  const openTextEditor = useCallback(
+    (pos: { x: number; y: number }, allowNew: boolean) => {
+      const hit = objectAt(objects, layers, pos, (obj) => obj.type === "text");
+
+      if (hit) {
+        setTextEditor({
+          x: hit.obj.points[0].x,
+          y: hit.obj.points[0].y,
+          id: hit.obj.id,
+          value: hit.obj.text ?? "",
+          fontSize: hit.obj.fontSize ?? DEFAULT_FONT_SIZE,
+          color: hit.obj.stroke,
+        });
+      } else if (allowNew && canDraw) {
+        setTextEditor({
+          x: pos.x,
+          y: pos.y,
+          id: null,
+          value: "",
+          fontSize: fontSizeFromRadius(brushRadius),
+          color: brushColor,
+        });
+      }
+    },
+    [objects, layers, canDraw, brushRadius, brushColor, setTextEditor]
+  );
+
+  // Commit the current stroke or drag
+  const finishStroke = useCallback(() => {
+    if (isDrawing && tool === "select" && marquee) {
+      // Select every object that lies entirely inside the marquee, leaving
+      // out pixel eraser strokes
+      const left = Math.min(marquee.start.x, marquee.end.x);
+      const top = Math.min(marquee.start.y, marquee.end.y);
+      const right = Math.max(marquee.start.x, marquee.end.x);
+      const bottom = Math.max(marquee.start.y, marquee.end.y);
+      const inside = objects
+        .map((obj, index) => ({ obj, index }))
+        .filter(
+          ({ obj, obj: { bounds } }) =>
+            obj.type !== "eraser" &&
+            isEditable(obj, layers) &&
+            bounds.x >= left &&
+            bounds.y >= top &&
+            bounds.x + bounds.width <= right &&
+            bounds.y + bounds.height <= bottom
+        )
+        .map(({ index }) => index);
+      const selection = marquee.additive
+        ? [
+            ...selectedObjects,
+            ...inside.filter((i) => !selectedObjects.includes(i)),
+          ]
+        : inside;
+
+      setSelectedIds(selection.map((i) => objects[i].id));
+      setMarquee(null);
+    } else if (isDrawing && tool === "select") {
+      if (hasMovedRef.current) {
+        addToHistory([...objects], resizeHandle !== null ? "resize" : "move");
+      }
+    } else if (isDrawing && isObjectEraser) {
+      if (hasMovedRef.current) {
+        addToHistory([...objects], "erase");
+      }
+    } else if (isDrawing) {
+      const newObjects = [...objects];
+      const last = newObjects[newObjects.length - 1];
+      if (last?.smooth) {
+        // Keep only the points needed to draw the curve
+        const simplified = {
+          ...last,
+          points: simplifyPoints(last.points, smoothing),
+        };
+        simplified.bounds = getObjectBounds(simplified);
+        newObjects[newObjects.length - 1] = simplified;
+        setObjects(newObjects);
+      }
+      addToHistory(newObjects, "draw");
+    }
+    hasMovedRef.current = false;
+    activePointerRef.current = null;
+    setIsDrawing(false);
+    setResizeHandle(null);
+    resizeStartRef.current = null;
+    setGuides([]);
+  }, [
+    isDrawing,
+    objects,
+    tool,
+    marquee,
+    selectedObjects,
+    isObjectEraser,
+    resizeHandle,
+    smoothing,
+    layers,
+    setObjects,
+    setIsDrawing,
+    setSelectedIds,
+    setMarquee,
+    setResizeHandle,
+    setGuides,
+    addToHistory,
+  ]);
+
+  // A new object for the current tool, starting at `pos`
+  const createObject = useCallback(
+    (
+      e: React.PointerEvent<HTMLCanvasElement>,
+      pos: { x: number; y: number }
+    ) => {
+      const type = tool as DrawingObject["type"];
+      const newObject: DrawingObject = {
+        id: createObjectId(),
+        type,
+        points:
+          tool === "polygon"
+            ? // The second point follows the pointer until the next click
+              [pos, pos]
+            : [tool === "highlighter" ? pos : pointFromEvent(e, pos)],
+        stroke: brushColor,
+        strokeWidth:
+          tool === "highlighter"
+            ? brushRadius * HIGHLIGHTER_WIDTH_FACTOR
+            : brushRadius,
+        bounds: { x: pos.x, y: pos.y, width: 0, height: 0 },
+        selected: false,
+        layer: activeLayer,
+      };
+      // Polygons are only fillable once closed, which they are by default
+      if (fill && isFillable({ ...newObject, closed: true })) {
+        newObject.fill = fill;
+      }
+      if (smoothing > 0 && isFreehand(newObject)) {
+        newObject.smooth = true;
       }
+      return newObject;
+    },
+    [tool, brushColor, brushRadius, fill, smoothing, activeLayer]
+  );
 
-      return {
-        x: clientX - rect.left,
-        y: clientY - rect.top,
+  // Where the last point of a polygon goes for the pointer at `pos`: on the
+  // grid, and at an angle step from the previous vertex with Shift held
+  const polygonPoint = useCallback(
+    (
+      e: React.PointerEvent<HTMLCanvasElement>,
+      polygon: DrawingObject,
+      pos: { x: number; y: number }
+    ) => {
+      const end = snap(e, pos);
+      const previous = polygon.points[polygon.points.length - 2];
+      return e.shiftKey && previous
+        ? constrainShape("polygon", previous, end, gridSize)
+        : end;
+    },
+    [snap, gridSize]
+  );
+
+  // Click to add a polygon vertex, starting a polygon if there is none
+  const addPolygonVertex = useCallback(
+    (
+      e: React.PointerEvent<HTMLCanvasElement>,
+      pos: { x: number; y: number }
+    ) => {
+      const last = objects[objects.length - 1];
+      if (!isDrawing || last?.type !== "polygon") {
+        setIsDrawing(true);
+        setObjects([...objects, createObject(e, pos)]);
+        return;
+      }
+      const vertex = polygonPoint(e, last, pos);
+      const updated = {
+        ...last,
+        points: [...last.points.slice(0, -1), vertex, vertex],
       };
+      setObjects([
+        ...objects.slice(0, -1),
+        { ...updated, bounds: getObjectBounds(updated) },
+      ]);
     },
-    [canvasRef]
+    [objects, isDrawing, createObject, polygonPoint, setIsDrawing, setObjects]
   );
 
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      const pos = getCanvasPos(e);
+  /**
+   * Commits the polygon being drawn, closed or as an open polyline. One with
+   * fewer than two vertices is dropped.
+   */
+  const finishPolygon = useCallback(
+    (close: boolean) => {
+      const last = objects[objects.length - 1];
+      if (!isDrawing || last?.type !== "polygon") return;
+      // Drop the point following the pointer, and the repeats a double-click
+      // leaves behind
+      const vertices = last.points
+        .slice(0, -1)
+        .filter(
+          (p, i, all) => i === 0 || p.x !== all[i - 1].x || p.y !== all[i - 1].y
+        );
+      setIsDrawing(false);
+      if (vertices.length < 2) {
+        setObjects(objects.slice(0, -1));
+        return;
+      }
+      const polygon: DrawingObject = {
+        ...last,
+        points: vertices,
+        closed: close && vertices.length > 2,
+      };
+      if (!polygon.closed) delete polygon.fill;
+      const newObjects = [
+        ...objects.slice(0, -1),
+        { ...polygon, bounds: getObjectBounds(polygon) },
+      ];
+      setObjects(newObjects);
+      addToHistory(newObjects, "draw");
+    },
+    [objects, isDrawing, setIsDrawing, setObjects, addToHistory]
+  );
+
+  // Enter finishes a polygon open, Escape drops it. Returns whether the key
+  // was taken.
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      const last = objects[objects.length - 1];
+      if (!isDrawing || last?.type !== "polygon") return false;
+      if (e.key === "Enter") {
+        finishPolygon(false);
+      } else if (e.key === "Escape") {
+        setObjects(objects.slice(0, -1));
+        setIsDrawing(false);
+      } else {
+        return false;
+      }
+      e.preventDefault();
+      return true;
+    },
+    [objects, isDrawing, finishPolygon, setObjects, setIsDrawing]
+  );
+
+  // Drop the stroke being drawn, e.g. when a pinch or a pen takes over.
+  // Select and object-eraser drags are committed as they are.
+  // Returns the objects that remain.
+  const cancelStroke = useCallback(() => {
+    if (!isDrawing) return objects;
+    if (tool === "select" || isObjectEraser) {
+      finishStroke();
+      return objects;
+    }
+    const remaining = objects.slice(0, -1);
+    setObjects(remaining);
+    activePointerRef.current = null;
+    setIsDrawing(false);
+    return remaining;
+  }, [
+    isDrawing,
+    tool,
+    isObjectEraser,
+    objects,
+    setObjects,
+    setIsDrawing,
+    finishStroke,
+  ]);
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (readOnly) return;
+      if (e.pointerType === "pen") lastPenRef.current = e.timeStamp;
+      let baseObjects = objects;
+      const active = activePointerRef.current;
+      if (active) {
+        // A pen takes over from a palm that touched down first
+        if (e.pointerType !== "pen" || active.type !== "touch") return;
+        baseObjects = cancelStroke();
+      }
+      // Palm rejection: touches are ignored while a pen is in use
+      if (
+        e.pointerType === "touch" &&
+        e.timeStamp - lastPenRef.current < PALM_REJECTION_MS
+      ) {
+        return;
+      }
+
+      // Shapes start on the grid
+      const pos = SHAPE_TOOLS.includes(tool)
+        ? snap(e, getCanvasPos(e))
+        : getCanvasPos(e);
+
+      if (tool === "text") {
+        // A click while editing only closes the editor, through its blur
+        if (!textEditor) openTextEditor(pos, true);
+        return;
+      }
+      if (tool !== "select" && !isObjectEraser && !canDraw) return;
+      if (tool === "polygon") {
+        addPolygonVertex(e, pos);
+        return;
+      }
+
+      // Keep receiving this pointer's events even if it leaves the canvas
+      activePointerRef.current = { id: e.pointerId, type: e.pointerType };
+      e.currentTarget.setPointerCapture?.(e.pointerId);
       setIsDrawing(true);
       setStartPos(pos);
 
       if (tool === "select") {
+        hasMovedRef.current = false;
+
+        // Start resizing when a handle of the only selected object is grabbed
+        const single =
+          selectedObjects.length === 1 ? baseObjects[selectedObjects[0]] : null;
+        if (single) {
+          const handle = getHandleAtPoint(single.bounds, pos, view.scale);
+          if (handle !== null) {
+            setResizeHandle(handle);
+            resizeStartRef.current = single;
+            return;
+          }
+        }
+
         // Check for object selection
-        const clickedObject = objects
-          .map((obj, index) => ({ obj, index }))
-          .reverse()
-          .find(({ obj }) => {
-            const { x, y, width, height } = obj.bounds;
-            return (
-              pos.x >= x &&
-              pos.x <= x + width &&
-              pos.y >= y &&
-              pos.y <= y + height
-            );
-          });
+        const clickedObject = objectAt(baseObjects, layers, pos);
 
+        let selection: number[];
         if (clickedObject) {
-          const newObjects = objects.map((obj, i) => ({
-            ...obj,
-            selected: i === clickedObject.index,
-          }));
-          setObjects(newObjects);
-          setSelectedObject(clickedObject.index);
+          const { index } = clickedObject;
+          if (e.shiftKey) {
+            // Shift+click toggles the object in the selection
+            selection = selectedObjects.includes(index)
+              ? selectedObjects.filter((i) => i !== index)
+              : [...selectedObjects, index];
+          } else if (selectedObjects.includes(index)) {
+            // Keep the selection so the whole set can be dragged
+            selection = selectedObjects;
+          } else {
+            selection = [index];
+          }
         } else {
-          const newObjects = objects.map((obj) => ({
-            ...obj,
-            selected: false,
-          }));
-          setObjects(newObjects);
-          setSelectedObject(null);
+          // Empty space starts a marquee, Shift adds to the selection
+          selection = e.shiftKey ? selectedObjects : [];
+          setMarquee({ start: pos, end: pos, additive: e.shiftKey });
         }
+
+        setSelectedIds(selection.map((i) => baseObjects[i].id));
         return;
       }
 
-      const newObject: DrawingObject = {
-        type: tool === "brush" ? "brush" : tool,
-        points: [pos],
-        stroke: brushColor,
-        strokeWidth: brushRadius,
-        bounds: { x: pos.x, y: pos.y, width: 0, height: 0 },
-        selected: false,
-      };
+      if (isObjectEraser) {
+        const newObjects = eraseObjects(
+          baseObjects,
+          pos,
+          pos,
+          brushRadius / 2,
+          canErase
+        );
+        hasMovedRef.current = newObjects !== baseObjects;
+        setObjects(newObjects);
+        return;
+      }
 
-      setObjects([...objects, newObject]);
+      setObjects([...baseObjects, createObject(e, pos)]);
     },
     [
       tool,
       getCanvasPos,
       objects,
+      setObjects,
       setIsDrawing,
       setStartPos,
-      brushColor,
+      setResizeHandle,
+      setSelectedIds,
+      setMarquee,
+      selectedObjects,
+      isObjectEraser,
+      textEditor,
+      openTextEditor,
       brushRadius,
-      addToHistory,
+      createObject,
+      addPolygonVertex,
+      snap,
+      layers,
+      canDraw,
+      canErase,
+      view,
+      cancelStroke,
+      readOnly,
     ]
   );
 
-  const handleMouseMove = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (!isDrawing) return;
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (readOnly) return;
+      if (e.pointerType === "pen") lastPenRef.current = e.timeStamp;
       const pos = getCanvasPos(e);
 
-      if (tool === "select" && selectedObject !== null) {
+      // Track the handle under the pointer so the cursor can follow it
+      if (!isDrawing) {
+        const obj =
+          tool === "select" && selectedObjects.length === 1
+            ? objects[selectedObjects[0]]
+            : undefined;
+        setHoverHandle(
+          obj ? getHandleAtPoint(obj.bounds, pos, view.scale) : null
+        );
+        return;
+      }
+      // The last point of a polygon follows the pointer between clicks
+      if (tool === "polygon") {
+        const last = objects[objects.length - 1];
+        if (last?.type !== "polygon") return;
+        const updated = {
+          ...last,
+          points: [...last.points.slice(0, -1), polygonPoint(e, last, pos)],
+        };
+        setObjects([
+          ...objects.slice(0, -1),
+          { ...updated, bounds: getObjectBounds(updated) },
+        ]);
+        return;
+      }
+      if (e.pointerId !== activePointerRef.current?.id) return;
+
+      if (tool === "select" && marquee) {
+        setMarquee({ ...marquee, end: pos });
+        return;
+      }
+
+      if (
+        tool === "select" &&
+        selectedObjects.length === 1 &&
+        resizeHandle !== null
+      ) {
         const newObjects = [...objects];
-        const obj = newObjects[selectedObject];
+        const original =
+          resizeStartRef.current ?? newObjects[selectedObjects[0]];
+        newObjects[selectedObjects[0]] = resizeObject(
+          original,
+          resizeHandle,
+          snap(e, pos),
+          // Images keep their aspect ratio unless Shift is held
+          e.shiftKey !== (original.type === "image")
+        );
+        hasMovedRef.current = true;
+        setObjects(newObjects);
+        return;
+      }
+
+      if (tool === "select" && selectedObjects.length > 0) {
         if (!startPos) return;
 
-        const dx = pos.x - startPos.x;
-        const dy = pos.y - startPos.y;
+        let dx = pos.x - startPos.x;
+        let dy = pos.y - startPos.y;
 
-        obj.bounds.x += dx;
-        obj.bounds.y += dy;
-        obj.points = obj.points.map((point) => ({
-          x: point.x + dx,
-          y: point.y + dy,
-        }));
+        // Line the selection up with other objects or the grid. The drag
+        // only advances by the snapped offset, so the pointer has to move
+        // past the snap distance to break away.
+        if (!e.altKey) {
+          const selection = selectedObjects.map((index) => objects[index]);
+          const bounds = unionBounds(selection);
+          const others = visibleObjects(objects, layers)
+            .filter((obj) => obj.type !== "eraser" && !selection.includes(obj))
+            .map((obj) => obj.bounds);
+          const aligned = alignBounds(
+            { ...bounds, x: bounds.x + dx, y: bounds.y + dy },
+            others,
+            gridSize,
+            GUIDE_THRESHOLD / view.scale
+          );
+          dx += aligned.dx;
+          dy += aligned.dy;
+          setGuides(aligned.guides);
+        }
+        if (dx === 0 && dy === 0) return;
+
+        // Copy rather than mutate, the list may be owned by a controlled parent
+        const newObjects = objects.map((obj, i) =>
+          selectedObjects.includes(i) ? moveObject(obj, dx, dy) : obj
+        );
+        hasMovedRef.current = true;
         setObjects(newObjects);
+        setStartPos({ x: startPos.x + dx, y: startPos.y + dy });
+        return;
+      }
+
+      if (tool === "select") return;
+
+      if (isObjectEraser) {
+        const newObjects = eraseObjects(
+          objects,
+          startPos ?? pos,
+          pos,
+          brushRadius / 2,
+          canErase
+        );
+        if (newObjects !== objects) {
+          hasMovedRef.current = true;
+          setObjects(newObjects);
+        }
         setStartPos(pos);
         return;
       }
@@ -159,23 +676,26 @@ export const useCanvasEvents = ({
 
       if (!currentObject) return;
 
-      if (tool === "brush" || tool === "eraser") {
+      if (tool === "highlighter") {
         currentObject.points.push(pos);
+      } else if (tool === "brush" || tool === "eraser") {
+        currentObject.points.push(pointFromEvent(e, pos));
         if (tool === "eraser") {
           // Optionally, you can set a specific stroke color or other properties
           // For 'destination-out', color doesn't matter, but keeping it for consistency
           currentObject.stroke = "rgba(0,0,0,1)"; // Color is irrelevant for 'destination-out'
         }
       } else if (startPos) {
-        currentObject.points = [startPos, pos];
+        const end = snap(e, pos);
+        currentObject.points = [
+          startPos,
+          e.shiftKey
+            ? constrainShape(currentObject.type, startPos, end, gridSize)
+            : end,
+        ];
       }
 
-      currentObject.bounds = {
-        x: Math.min(currentObject.points[0].x, currentObject.points[1].x),
-        y: Math.min(currentObject.points[0].y, currentObject.points[1].y),
-        width: Math.abs(currentObject.points[1].x - currentObject.points[0].x),
-        height: Math.abs(currentObject.points[1].y - currentObject.points[0].y),
-      };
+      currentObject.bounds = getObjectBounds(currentObject);
 
       setObjects(newObjects);
     },
@@ -183,57 +703,67 @@ export const useCanvasEvents = ({
       tool,
       isDrawing,
       objects,
-      selectedObject,
+      selectedObjects,
+      marquee,
+      isObjectEraser,
+      canErase,
+      brushRadius,
       startPos,
+      resizeHandle,
+      snap,
+      polygonPoint,
+      gridSize,
+      layers,
+      setObjects,
+      setGuides,
       setStartPos,
+      setHoverHandle,
+      setMarquee,
       getCanvasPos,
+      view,
+      readOnly,
     ]
   );
 
-  const handleMouseUp = useCallback(() => {
-    if (isDrawing) {
-      addToHistory([...objects]);
-    }
-    setIsDrawing(false);
-  }, [isDrawing, objects, addToHistory]);
-
-  const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    const touch = e.touches[0];
-    if (!touch) return;
-
-    const simulatedEvent = {
-      clientX: touch.clientX,
-      clientY: touch.clientY,
-    } as unknown as React.MouseEvent<HTMLCanvasElement>;
-
-    handleMouseDown(simulatedEvent);
-  };
-
-  const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    const touch = e.touches[0];
-    if (!touch) return;
-
-    const simulatedEvent = {
-      clientX: touch.clientX,
-      clientY: touch.clientY,
-    } as unknown as React.MouseEvent<HTMLCanvasElement>;
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== activePointerRef.current?.id) return;
+      finishStroke();
+    },
+    [finishStroke]
+  );
 
-    handleMouseMove(simulatedEvent);
-  };
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== activePointerRef.current?.id) return;
+      cancelStroke();
+    },
+    [cancelStroke]
+  );
 
-  const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    handleMouseUp();
-  };
+  // Double-click re-edits a text object
+  const handleDoubleClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (readOnly) return;
+      if (tool === "polygon") {
+        finishPolygon(true);
+        return;
+      }
+      if (tool !== "select" && tool !== "text") return;
+      openTextEditor(getCanvasPos(e), false);
+    },
+    [tool, getCanvasPos, openTextEditor, finishPolygon, readOnly]
+  );
 
   return {
-    handleMouseDown,
-    handleMouseMove,
-    handleMouseUp,
-    handleTouchStart,
-    handleTouchMove,
-    handleTouchEnd,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handlePointerCancel,
+    handleDoubleClick,
+    handleKeyDown,
+    getCanvasPos,
+    finishPolygon,
+    cancelStroke,
   };
 };
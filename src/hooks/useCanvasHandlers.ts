@@ -1,97 +1,502 @@
-import { useCallback } from "react";
-import { DrawingObject } from "../components/ArtBoard";
+import { useCallback, useRef } from "react";
+import {
+  BackgroundFit,
+  DrawingObject,
+  FillStyle,
+  Layer,
+  NewDrawingObject,
+  ObjectsChangeReason,
+  Point,
+  TextEditor,
+  View,
+} from "../components/ArtBoard";
+import { copyObjects, PASTE_OFFSET } from "../utils/clipboard";
+import { moveObject } from "../utils/handles";
+import { getObjectBounds } from "../utils/hitTest";
+import { createObjectId } from "../utils/id";
+import { createImageObject, CrossOrigin, ResolveAsset } from "../utils/images";
+import { reorderObjects, visibleObjects, ZOrderAction } from "../utils/layers";
+import { sceneToDataURL } from "../utils/render";
+import { isFillable } from "../utils/shapes";
+import { objectsToSVG } from "../utils/svg";
+import { screenToDrawing } from "../utils/view";
 
 export interface CanvasHandlersProps {
-  canvasRef: React.RefObject<HTMLCanvasElement>;
   objects: DrawingObject[];
   setObjects: React.Dispatch<React.SetStateAction<DrawingObject[]>>;
-  setSelectedObject: React.Dispatch<React.SetStateAction<number | null>>;
-  selectedObject: number | null;
-  setHistory: React.Dispatch<React.SetStateAction<DrawingObject[][]>>;
-  setHistoryIndex: React.Dispatch<React.SetStateAction<number>>;
-  history: DrawingObject[][];
-  historyIndex: number;
+  setSelectedIds: React.Dispatch<React.SetStateAction<string[]>>;
+  selectedObjects: number[]; // Indexes in `objects` of the selected objects
+  pushHistory: (objects: DrawingObject[], mergeKey?: string | null) => void;
+  stepHistory: (delta: number) => DrawingObject[] | undefined;
+  onChange?: (objects: DrawingObject[], reason: ObjectsChangeReason) => void;
+  imageSrc?: string;
+  backgroundImage: HTMLImageElement | null;
+  backgroundFit: BackgroundFit;
+  width: number;
+  height: number;
+  layers: Layer[];
+  activeLayer: string;
+  view: View;
+  resolveAsset: ResolveAsset;
+  crossOrigin: CrossOrigin;
+  onExportError: (error: Error) => void;
 }
 
 export const useCanvasHandlers = ({
-  canvasRef,
   objects,
   setObjects,
-  setSelectedObject,
-  selectedObject,
-  setHistory,
-  setHistoryIndex,
-  history,
-  historyIndex,
+  setSelectedIds,
+  selectedObjects,
+  pushHistory,
+  stepHistory,
+  onChange,
+  imageSrc,
+  backgroundImage,
+  backgroundFit,
+  width,
+  height,
+  layers,
+  activeLayer,
+  view,
+  resolveAsset,
+  crossOrigin,
+  onExportError,
 }: CanvasHandlersProps) => {
+  // Pastes since the last copy, each offset a step further
+  const pasteCountRef = useRef(0);
+  // The objects as of the last edit, so ref methods called several times
+  // before a re-render each build on the one before
+  const latestRef = useRef(objects);
+  latestRef.current = objects;
+
   // Undo
   const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setObjects(history[historyIndex - 1]);
+    const previous = stepHistory(-1);
+    if (previous) {
+      setObjects(previous);
+      setSelectedIds([]);
+      onChange?.(previous, "undo");
     }
-  }, [historyIndex, history, setObjects, setHistoryIndex]);
+  }, [stepHistory, setObjects, setSelectedIds, onChange]);
 
   // Redo
   const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setObjects(history[historyIndex + 1]);
+    const next = stepHistory(1);
+    if (next) {
+      setObjects(next);
+      setSelectedIds([]);
+      onChange?.(next, "redo");
     }
-  }, [historyIndex, history, setObjects, setHistoryIndex]);
+  }, [stepHistory, setObjects, setSelectedIds, onChange]);
 
-  // Delete selected object
+  // Delete selected objects
   const handleDelete = useCallback(() => {
-    if (selectedObject !== null && selectedObject >= 0) {
-      const newObjects = objects.filter((_, index) => index !== selectedObject);
+    if (selectedObjects.length > 0) {
+      const newObjects = objects.filter(
+        (_, index) => !selectedObjects.includes(index)
+      );
       setObjects(newObjects);
-      setSelectedObject(null);
-      setHistory([...history.slice(0, historyIndex + 1), newObjects]);
-      setHistoryIndex((prev) => prev + 1);
+      setSelectedIds([]);
+      pushHistory(newObjects);
+      onChange?.(newObjects, "delete");
     }
   }, [
-    selectedObject,
+    selectedObjects,
     objects,
     setObjects,
-    setSelectedObject,
-    setHistory,
-    history,
-    historyIndex,
-    setHistoryIndex,
+    setSelectedIds,
+    pushHistory,
+    onChange,
   ]);
 
+  // Clear the selection
+  const handleDeselect = useCallback(() => {
+    setSelectedIds([]);
+  }, [setSelectedIds]);
+
+  // Move the selected objects by a few pixels
+  const handleNudge = useCallback(
+    (dx: number, dy: number) => {
+      if (selectedObjects.length === 0) return;
+      const newObjects = objects.map((obj, index) =>
+        selectedObjects.includes(index) ? moveObject(obj, dx, dy) : obj
+      );
+      setObjects(newObjects);
+      pushHistory(newObjects);
+      onChange?.(newObjects, "move");
+    },
+    [selectedObjects, objects, setObjects, pushHistory, onChange]
+  );
+
+  // Create or update a text object from the inline editor
+  const handleTextCommit = useCallback(
+    (editor: TextEditor) => {
+      const text = editor.value.replace(/\s+$/, "");
+      let newObjects: DrawingObject[];
+      let reason: ObjectsChangeReason;
+
+      if (editor.id !== null) {
+        const current = objects.find((obj) => obj.id === editor.id);
+        if (!current || current.text === text) return;
+        if (text) {
+          const updated = { ...current, text };
+          newObjects = objects.map((obj) =>
+            obj === current
+              ? { ...updated, bounds: getObjectBounds(updated) }
+              : obj
+          );
+          reason = "edit";
+        } else {
+          // Clearing the text removes the object
+          newObjects = objects.filter((obj) => obj !== current);
+          setSelectedIds([]);
+          reason = "delete";
+        }
+      } else {
+        if (!text) return;
+        const created: DrawingObject = {
+          id: createObjectId(),
+          type: "text",
+          points: [{ x: editor.x, y: editor.y }],
+          stroke: editor.color,
+          strokeWidth: 0,
+          bounds: { x: editor.x, y: editor.y, width: 0, height: 0 },
+          selected: false,
+          text,
+          fontSize: editor.fontSize,
+          layer: activeLayer,
+        };
+        newObjects = [
+          ...objects,
+          { ...created, bounds: getObjectBounds(created) },
+        ];
+        reason = "draw";
+      }
+
+      setObjects(newObjects);
+      pushHistory(newObjects);
+      onChange?.(newObjects, reason);
+    },
+    [objects, activeLayer, setObjects, setSelectedIds, pushHistory, onChange]
+  );
+
+  // Apply a stroke color and/or fill to the selected objects. Fill only
+  // applies to closed shapes, and null removes it.
+  const handleRestyle = useCallback(
+    (style: { stroke?: string; fill?: FillStyle | null }) => {
+      if (selectedObjects.length === 0) return;
+      const newObjects = objects.map((obj, index) => {
+        if (!selectedObjects.includes(index) || obj.type === "eraser") {
+          return obj;
+        }
+        const restyled = { ...obj };
+        if (style.stroke !== undefined) restyled.stroke = style.stroke;
+        if (style.fill !== undefined && isFillable(obj)) {
+          if (style.fill) {
+            restyled.fill = style.fill;
+          } else {
+            delete restyled.fill;
+          }
+        }
+        return restyled;
+      });
+      setObjects(newObjects);
+      // Consecutive restyles of the same selection are one undo step
+      pushHistory(newObjects, `restyle:${selectedObjects.join(",")}`);
+      onChange?.(newObjects, "restyle");
+    },
+    [selectedObjects, objects, setObjects, pushHistory, onChange]
+  );
+
+  // Move the selected objects in the z-order, keeping them selected
+  const handleReorder = useCallback(
+    (action: ZOrderAction) => {
+      if (selectedObjects.length === 0) return;
+      const result = reorderObjects(objects, selectedObjects, layers, action);
+      if (result.objects.every((obj, index) => obj === objects[index])) return;
+      setObjects(result.objects);
+      pushHistory(result.objects);
+      onChange?.(result.objects, "reorder");
+    },
+    [selectedObjects, objects, layers, setObjects, pushHistory, onChange]
+  );
+
+  // Move the selected objects onto another layer, on top of its objects.
+  // They stay selected unless that layer is hidden or locked.
+  const handleMoveToLayer = useCallback(
+    (layerId: string) => {
+      if (selectedObjects.length === 0) return;
+      const moved = objects
+        .filter((_, index) => selectedObjects.includes(index))
+        .map((obj) => ({ ...obj, layer: layerId }));
+      const newObjects = [
+        ...objects.filter((_, index) => !selectedObjects.includes(index)),
+        ...moved,
+      ];
+      const target = layers.find((layer) => layer.id === layerId);
+      setObjects(newObjects);
+      if (!target || !target.visible || target.locked) setSelectedIds([]);
+      pushHistory(newObjects);
+      onChange?.(newObjects, "reorder");
+    },
+    [
+      selectedObjects,
+      objects,
+      layers,
+      setObjects,
+      setSelectedIds,
+      pushHistory,
+      onChange,
+    ]
+  );
+
+  // Add objects on top and select them, as one undoable step
+  const insertObjects = useCallback(
+    (inserted: DrawingObject[], reason: ObjectsChangeReason) => {
+      const newObjects = [...objects, ...inserted];
+      setObjects(newObjects);
+      setSelectedIds(inserted.map((obj) => obj.id));
+      pushHistory(newObjects);
+      onChange?.(newObjects, reason);
+    },
+    [objects, setObjects, setSelectedIds, pushHistory, onChange]
+  );
+
+  // Nothing is pasted or inserted onto a hidden or locked layer
+  const canPaste = useCallback(() => {
+    const layer = layers.find(({ id }) => id === activeLayer);
+    return !layer || (layer.visible && !layer.locked);
+  }, [layers, activeLayer]);
+
+  // The selected objects to put on the clipboard, or null if there are none
+  const handleCopy = useCallback(() => {
+    if (selectedObjects.length === 0) return null;
+    pasteCountRef.current = 0;
+    return objects.filter((_, index) => selectedObjects.includes(index));
+  }, [selectedObjects, objects]);
+
+  // Paste copies of objects from the clipboard onto the active layer
+  const handlePaste = useCallback(
+    (pasted: DrawingObject[]) => {
+      if (pasted.length === 0 || !canPaste()) return false;
+      pasteCountRef.current += 1;
+      insertObjects(
+        copyObjects(pasted, PASTE_OFFSET * pasteCountRef.current, activeLayer),
+        "paste"
+      );
+      return true;
+    },
+    [canPaste, insertObjects, activeLayer]
+  );
+
+  // Add an image at its natural size centered on `at`, or on the view,
+  // scaled down to fit the board
+  const handleInsertImage = useCallback(
+    (
+      image: { src: string; width: number; height: number },
+      at: Point | null,
+      reason: ObjectsChangeReason
+    ) => {
+      if (!canPaste()) return false;
+      const center =
+        at ?? screenToDrawing(view, { x: width / 2, y: height / 2 });
+      insertObjects(
+        [
+          {
+            ...createImageObject(
+              image.src,
+              image.width,
+              image.height,
+              center,
+              width,
+              height
+            ),
+            layer: activeLayer,
+          },
+        ],
+        reason
+      );
+      return true;
+    },
+    [canPaste, insertObjects, activeLayer, width, height, view]
+  );
+
+  // Copy the selected objects in place, offset and selected on their layers
+  const handleDuplicate = useCallback(() => {
+    if (selectedObjects.length === 0) return;
+    insertObjects(
+      copyObjects(
+        objects.filter((_, index) => selectedObjects.includes(index)),
+        PASTE_OFFSET
+      ),
+      "paste"
+    );
+  }, [selectedObjects, objects, insertObjects]);
+
+  // The current objects, including edits not rendered yet
+  const getObjects = useCallback(() => latestRef.current, []);
+
+  // Apply an edit from a ref method on top of the latest objects
+  const commitObjects = useCallback(
+    (newObjects: DrawingObject[], action: "draw" | "edit" | "delete") => {
+      latestRef.current = newObjects;
+      setObjects(newObjects);
+      pushHistory(newObjects);
+      onChange?.(newObjects, action);
+    },
+    [setObjects, pushHistory, onChange]
+  );
+
+  // Add an object, giving it an ID unless it has a free one
+  const handleAddObject = useCallback(
+    (object: NewDrawingObject) => {
+      const current = latestRef.current;
+      const taken =
+        object.id !== undefined && current.some((obj) => obj.id === object.id);
+      const created: DrawingObject = {
+        ...object,
+        id: object.id !== undefined && !taken ? object.id : createObjectId(),
+        bounds: { x: 0, y: 0, width: 0, height: 0 },
+        selected: false,
+      };
+      commitObjects(
+        [...current, { ...created, bounds: getObjectBounds(created) }],
+        "draw"
+      );
+      return created.id;
+    },
+    [commitObjects]
+  );
+
+  // Patch the object with `id`, recomputing its bounds from its geometry
+  const handleUpdateObject = useCallback(
+    (id: string, patch: Partial<NewDrawingObject>) => {
+      const current = latestRef.current;
+      const index = current.findIndex((obj) => obj.id === id);
+      if (index === -1) return false;
+      const updated = { ...current[index], ...patch, id };
+      commitObjects(
+        current.map((obj, i) =>
+          i === index ? { ...updated, bounds: getObjectBounds(updated) } : obj
+        ),
+        "edit"
+      );
+      return true;
+    },
+    [commitObjects]
+  );
+
+  // Remove the object with `id`, dropping it from the selection
+  const handleRemoveObject = useCallback(
+    (id: string) => {
+      const current = latestRef.current;
+      if (!current.some((obj) => obj.id === id)) return false;
+      setSelectedIds((prev) => prev.filter((selected) => selected !== id));
+      commitObjects(
+        current.filter((obj) => obj.id !== id),
+        "delete"
+      );
+      return true;
+    },
+    [setSelectedIds, commitObjects]
+  );
+
   // Clear all objects
   const handleClearCanvas = useCallback(() => {
     setObjects([]);
-    setSelectedObject(null);
-    setHistory([...history.slice(0, historyIndex + 1), []]);
-    setHistoryIndex((prev) => prev + 1);
-  }, [
-    setObjects,
-    setSelectedObject,
-    setHistory,
-    history,
-    historyIndex,
-    setHistoryIndex,
-  ]);
+    setSelectedIds([]);
+    pushHistory([]);
+    onChange?.([], "clear");
+  }, [setObjects, setSelectedIds, pushHistory, onChange]);
 
-  // Export canvas as image
+  // Export the drawing as an image, at 100% whatever the current view
   const handleExportImage = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const link = document.createElement("a");
-      link.download = "drawing.png";
-      link.href = canvas.toDataURL("image/png");
-      link.click();
+    let href: string;
+    try {
+      href = sceneToDataURL({
+        objects: visibleObjects(objects, layers),
+        backgroundImage,
+        backgroundFit,
+        width,
+        height,
+        resolveAsset,
+        crossOrigin,
+      });
+    } catch (error) {
+      onExportError(error as Error);
+      return;
     }
-  }, [canvasRef]);
+    const link = document.createElement("a");
+    link.download = "drawing.png";
+    link.href = href;
+    link.click();
+  }, [
+    objects,
+    layers,
+    backgroundImage,
+    backgroundFit,
+    width,
+    height,
+    resolveAsset,
+    crossOrigin,
+    onExportError,
+  ]);
+
+  // Export objects as an SVG file
+  const handleExportSVG = useCallback(() => {
+    const svg = objectsToSVG({
+      objects: visibleObjects(objects, layers),
+      width,
+      height,
+      imageSrc,
+      backgroundFit,
+      backgroundSize: backgroundImage
+        ? {
+            width: backgroundImage.naturalWidth,
+            height: backgroundImage.naturalHeight,
+          }
+        : undefined,
+      resolveAsset,
+    });
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    const link = document.createElement("a");
+    link.download = "drawing.svg";
+    link.href = url;
+    link.click();
+    // Revoking right away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url));
+  }, [
+    objects,
+    layers,
+    width,
+    height,
+    imageSrc,
+    backgroundImage,
+    backgroundFit,
+    resolveAsset,
+  ]);
 
   // Return handlers
   return {
     undo,
     redo,
     handleDelete,
+    handleDeselect,
+    handleNudge,
+    handleRestyle,
+    handleReorder,
+    handleMoveToLayer,
+    handleCopy,
+    handlePaste,
+    handleInsertImage,
+    handleDuplicate,
+    getObjects,
+    handleAddObject,
+    handleUpdateObject,
+    handleRemoveObject,
     handleClearCanvas,
     handleExportImage,
+    handleExportSVG,
+    handleTextCommit,
   };
 };
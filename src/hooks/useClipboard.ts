@@ -0,0 +1,137 @@
+import { DrawingObject } from "../components/ArtBoard";
+import {
+  CLIPBOARD_MIME,
+  parseClipboard,
+  serializeClipboard,
+  WEB_CLIPBOARD_MIME,
+} from "../utils/clipboard";
+import { isEditableTarget } from "./useKeyboardShortcuts";
+
+interface ClipboardProps {
+  enabled: boolean;
+  // The objects to copy, or null if nothing is selected
+  getSelection: () => DrawingObject[] | null;
+  // A PNG data URL of the objects being copied. Throws if the canvas is
+  // tainted by a cross-origin image.
+  renderSelection: (objects: DrawingObject[]) => string;
+  handleDelete: () => void;
+  handlePaste: (objects: DrawingObject[]) => void;
+  handlePasteImage: (file: File) => void;
+}
+
+// Puts the objects on the system clipboard as a PNG image, with their data
+// under a web custom format so a board can paste them back. Resolves to false,
+// leaving the clipboard as the copy event wrote it, where the Clipboard API,
+// PNG images or custom formats are not supported.
+const writeImage = async (image: string, data: string) => {
+  if (
+    typeof ClipboardItem === "undefined" ||
+    typeof ClipboardItem.supports !== "function" ||
+    !ClipboardItem.supports(WEB_CLIPBOARD_MIME) ||
+    !navigator.clipboard?.write
+  ) {
+    return false;
+  }
+  try {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        // A promise, so the write starts within the copy event
+        "image/png": fetch(image).then((response) => response.blob()),
+        [WEB_CLIPBOARD_MIME]: new Blob([data], { type: WEB_CLIPBOARD_MIME }),
+      }),
+    ]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Reads objects written by `writeImage`, which paste events do not expose.
+// Resolves to null if there are none or reading is not allowed.
+const readObjects = async () => {
+  if (!navigator.clipboard?.read) return null;
+  try {
+    for (const item of await navigator.clipboard.read()) {
+      if (!item.types.includes(WEB_CLIPBOARD_MIME)) continue;
+      const blob = await item.getType(WEB_CLIPBOARD_MIME);
+      return parseClipboard(await blob.text());
+    }
+  } catch {
+    // Permission denied, or the clipboard changed while reading
+  }
+  return null;
+};
+
+/**
+ * Returns copy, cut and paste handlers for the elements that keyboard
+ * shortcuts are handled on, so both work wherever focus is in the board.
+ *
+ * Copies put the selected objects on the clipboard under `CLIPBOARD_MIME`,
+ * with an HTML image of them for apps that take pictures. Where the Clipboard
+ * API allows, they are then replaced by a PNG image with the objects under
+ * `WEB_CLIPBOARD_MIME`. If the objects cannot be drawn, as when a
+ * cross-origin image taints the canvas, only their data is copied. Pasting
+ * reads those objects back, or an image file copied from elsewhere.
+ */
+export const useClipboard = ({
+  enabled,
+  getSelection,
+  renderSelection,
+  handleDelete,
+  handlePaste,
+  handlePasteImage,
+}: ClipboardProps) => {
+  // Form fields inside the board keep their own clipboard behavior
+  const isHandled = (e: React.ClipboardEvent) =>
+    enabled && !isEditableTarget(e.target);
+
+  const copy = (e: React.ClipboardEvent) => {
+    if (!isHandled(e)) return false;
+    const objects = getSelection();
+    if (!objects) return false;
+    const data = serializeClipboard(objects);
+    let image: string | null = null;
+    try {
+      image = renderSelection(objects);
+    } catch {
+      // A tainted canvas cannot be read, so only the data is copied
+    }
+    e.clipboardData.setData(CLIPBOARD_MIME, data);
+    if (image) e.clipboardData.setData("text/html", `<img src="${image}">`);
+    e.preventDefault();
+    // What the event wrote stays on the clipboard if this fails
+    if (image) void writeImage(image, data);
+    return true;
+  };
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    copy(e);
+  };
+
+  const handleCut = (e: React.ClipboardEvent) => {
+    if (copy(e)) handleDelete();
+  };
+
+  const handlePasteEvent = (e: React.ClipboardEvent) => {
+    if (!isHandled(e)) return;
+    const data = e.clipboardData.getData(CLIPBOARD_MIME);
+    const objects = data ? parseClipboard(data) : null;
+    if (objects) {
+      e.preventDefault();
+      handlePaste(objects);
+      return;
+    }
+    const file = Array.from(e.clipboardData.files).find((f) =>
+      f.type.startsWith("image/")
+    );
+    if (!file) return;
+    e.preventDefault();
+    // The image may be one a board copied, with its objects alongside
+    void readObjects().then((copied) => {
+      if (copied) handlePaste(copied);
+      else handlePasteImage(file);
+    });
+  };
+
+  return { handleCopy, handleCut, handlePaste: handlePasteEvent };
+};
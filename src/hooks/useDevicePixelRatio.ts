@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+
+const currentRatio = () =>
+  typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+
+/**
+ * Returns the device pixel ratio, updated when it changes, e.g. when the
+ * window moves to a monitor with a different density or the page is zoomed.
+ */
+export const useDevicePixelRatio = () => {
+  const [ratio, setRatio] = useState(currentRatio);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== "function") return;
+    // This query stops matching as soon as the ratio changes, and is then
+    // replaced by one for the new ratio
+    const query = window.matchMedia(`(resolution: ${ratio}dppx)`);
+    const handleChange = () => setRatio(currentRatio());
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, [ratio]);
+
+  return ratio;
+};
@@ -0,0 +1,107 @@
+import { useCallback, useRef, useState } from "react";
+import { DrawingObject } from "../components/ArtBoard";
+
+/**
+ * Default number of undo steps kept.
+ */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+interface HistoryState {
+  entries: DrawingObject[][];
+  index: number;
+  mergeKey: string | null; // The merge key of the current entry, if any.
+}
+
+/**
+ * Undo history of object lists.
+ *
+ * Entries share structure: edits copy only the objects they change, so an
+ * entry holds references to the same unchanged objects as its neighbours
+ * rather than a deep copy of the scene. Objects in history must therefore
+ * never be mutated. Only the last `limit` steps are kept.
+ *
+ * History is kept in a ref and re-renders on change, so several steps in the
+ * same tick, and `canStep` called from an `onChange` listener, see the
+ * latest entries rather than those of the last render.
+ */
+export const useHistory = (
+  initial: DrawingObject[],
+  limit = DEFAULT_HISTORY_LIMIT
+) => {
+  const stateRef = useRef<HistoryState>({
+    entries: [initial],
+    index: 0,
+    mergeKey: null,
+  });
+  const [, setVersion] = useState(0);
+  const { entries, index } = stateRef.current;
+
+  const setState = useCallback((next: HistoryState) => {
+    stateRef.current = next;
+    setVersion((version) => version + 1);
+  }, []);
+
+  /**
+   * Records a new entry after the current one, dropping any redo steps.
+   * Consecutive entries pushed with the same `mergeKey` replace each other,
+   * so a series of small edits, such as dragging a color picker, is undone
+   * as one step.
+   */
+  const pushHistory = useCallback(
+    (objects: DrawingObject[], mergeKey: string | null = null) => {
+      const prev = stateRef.current;
+      const merge = mergeKey !== null && prev.mergeKey === mergeKey;
+      const kept = prev.entries.slice(0, merge ? prev.index : prev.index + 1);
+      // Drop the oldest steps beyond the limit
+      const entries = [...kept, objects].slice(-(Math.max(limit, 0) + 1));
+      setState({ entries, index: entries.length - 1, mergeKey });
+    },
+    [limit, setState]
+  );
+
+  // Starts over from `objects`, e.g. after loading a scene
+  const resetHistory = useCallback(
+    (objects: DrawingObject[]) => {
+      setState({ entries: [objects], index: 0, mergeKey: null });
+    },
+    [setState]
+  );
+
+  // The current entry, including steps taken since the last render
+  const getCurrent = useCallback(() => {
+    const { entries, index } = stateRef.current;
+    return entries[index];
+  }, []);
+
+  // Whether there is an entry `delta` steps from the current one
+  const canStep = useCallback((delta: number) => {
+    const { entries, index } = stateRef.current;
+    return entries[index + delta] !== undefined;
+  }, []);
+
+  /**
+   * Moves through history by `delta` steps.
+   * @returns {DrawingObject[] | undefined} The entry moved to, or undefined
+   * if there is none.
+   */
+  const stepHistory = useCallback(
+    (delta: number) => {
+      const { entries, index } = stateRef.current;
+      const target = entries[index + delta];
+      if (!target) return undefined;
+      setState({ entries, index: index + delta, mergeKey: null });
+      return target;
+    },
+    [setState]
+  );
+
+  return {
+    canUndo: index > 0,
+    canRedo: index < entries.length - 1,
+    pushHistory,
+    resetHistory,
+    stepHistory,
+    canStep,
+    getCurrent,
+  };
+};
@@ -0,0 +1,68 @@
+import { useCallback, useRef } from "react";
+import {
+  AssetResolver,
+  ObjectsChangeReason,
+  Point,
+} from "../components/ArtBoard";
+import { CrossOrigin, loadImage, readAsDataURL } from "../utils/images";
+
+interface ImageImportProps {
+  assets?: AssetResolver;
+  // Loaded the way image objects are drawn, so the decoded image is reused
+  crossOrigin: CrossOrigin;
+  handleInsertImage: (
+    image: { src: string; width: number; height: number },
+    at: Point | null,
+    reason: ObjectsChangeReason
+  ) => boolean;
+  // Called after an image was added
+  onInserted?: () => void;
+  // Called if the file cannot be read, decoded or stored
+  onError: (error: Error) => void;
+}
+
+/**
+ * Returns a function that adds an image file, such as a pasted, dropped or
+ * picked one, as an image object. Its natural size is read first, and it is
+ * handed to `assets.store` when given, or kept as a data URL otherwise.
+ * Failures go to `onError` rather than rejecting, since drops and pastes
+ * have no caller to handle them.
+ */
+export const useImageImport = ({
+  assets,
+  crossOrigin,
+  handleInsertImage,
+  onInserted,
+  onError,
+}: ImageImportProps) => {
+  // The image is added once it has loaded, through the handlers of that time
+  const propsRef = useRef({ handleInsertImage, onInserted, onError });
+  propsRef.current = { handleInsertImage, onInserted, onError };
+
+  return useCallback(
+    async (
+      file: Blob,
+      at: Point | null,
+      reason: ObjectsChangeReason = "insert"
+    ) => {
+      try {
+        const dataURL = await readAsDataURL(file);
+        const image = await loadImage(dataURL, crossOrigin);
+        const src = assets ? await assets.store(dataURL, file) : dataURL;
+        const inserted = propsRef.current.handleInsertImage(
+          { src, width: image.naturalWidth, height: image.naturalHeight },
+          at,
+          reason
+        );
+        if (inserted) propsRef.current.onInserted?.();
+      } catch (error) {
+        propsRef.current.onError(
+          error instanceof Error
+            ? error
+            : new Error(`Failed to add image: ${error}`)
+        );
+      }
+    },
+    [assets, crossOrigin]
+  );
+};
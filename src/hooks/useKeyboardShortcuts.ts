@@ -0,0 +1,204 @@
+import { useCallback } from "react";
+import { ToolType } from "../components/ArtBoard";
+import { ZOrderAction } from "../utils/layers";
+
+/**
+ * Actions that can be bound to a keyboard shortcut.
+ */
+export type ShortcutAction =
+  | "undo"
+  | "redo"
+  | "delete"
+  | "deselect"
+  | "duplicate"
+  | "nudgeUp"
+  | "nudgeDown"
+  | "nudgeLeft"
+  | "nudgeRight"
+  | "bringToFront"
+  | "bringForward"
+  | "sendBackward"
+  | "sendToBack"
+  | ToolType;
+
+/**
+ * Key bindings per action. A binding is a key name optionally prefixed with
+ * modifiers, e.g. "mod+shift+z", where "mod" is Ctrl, or Cmd on macOS.
+ * Use an array for several bindings and null to disable an action.
+ */
+export type ShortcutMap = Partial<
+  Record<ShortcutAction, string | string[] | null>
+>;
+
+/**
+ * Default key bindings. Nudges move by 1px, or 10px with Shift held.
+ * Shift turns "]" into "}" on most layouts, so both are bound.
+ */
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string[]> = {
+  undo: ["mod+z"],
+  redo: ["mod+shift+z", "mod+y"],
+  delete: ["delete", "backspace"],
+  deselect: ["escape"],
+  duplicate: ["mod+d"],
+  nudgeUp: ["arrowup"],
+  nudgeDown: ["arrowdown"],
+  nudgeLeft: ["arrowleft"],
+  nudgeRight: ["arrowright"],
+  bringToFront: ["mod+shift+]", "mod+shift+}"],
+  bringForward: ["mod+]"],
+  sendBackward: ["mod+["],
+  sendToBack: ["mod+shift+[", "mod+shift+{"],
+  brush: ["b"],
+  highlighter: ["h"],
+  circle: ["c"],
+  ellipse: ["o"],
+  rect: ["r"],
+  polygon: ["p"],
+  arrow: ["a"],
+  line: ["l"],
+  select: ["v"],
+  eraser: ["e"],
+  text: ["t"],
+};
+
+const NUDGES: Partial<Record<ShortcutAction, [number, number]>> = {
+  nudgeUp: [0, -1],
+  nudgeDown: [0, 1],
+  nudgeLeft: [-1, 0],
+  nudgeRight: [1, 0],
+};
+
+const REORDERS: Partial<Record<ShortcutAction, ZOrderAction>> = {
+  bringToFront: "front",
+  bringForward: "forward",
+  sendBackward: "backward",
+  sendToBack: "back",
+};
+
+const TOOLS: ToolType[] = [
+  "brush",
+  "highlighter",
+  "circle",
+  "ellipse",
+  "arrow",
+  "line",
+  "rect",
+  "polygon",
+  "select",
+  "eraser",
+  "text",
+];
+
+// Whether a keyboard event matches a binding such as "mod+shift+z".
+// Nudges ignore Shift, which only changes their step size.
+const matches = (
+  event: React.KeyboardEvent,
+  binding: string,
+  ignoreShift: boolean
+) => {
+  const parts = binding.toLowerCase().split("+");
+  const key = parts.pop();
+  const mod = parts.includes("mod");
+  return (
+    event.key.toLowerCase() === key &&
+    (event.ctrlKey || event.metaKey) === mod &&
+    event.altKey === parts.includes("alt") &&
+    (ignoreShift || event.shiftKey === parts.includes("shift"))
+  );
+};
+
+/**
+ * Whether keys typed at `target` belong to it rather than the board, as in
+ * form fields and sliders.
+ */
+export const isEditableTarget = (target: EventTarget) => {
+  const element = target as HTMLElement;
+  return (
+    ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName) ||
+    element.isContentEditable ||
+    element.getAttribute?.("role") === "slider"
+  );
+};
+
+interface KeyboardShortcutsProps {
+  shortcuts?: ShortcutMap | false;
+  enabled: boolean;
+  undo: () => void;
+  redo: () => void;
+  handleDelete: () => void;
+  handleDeselect: () => void;
+  handleDuplicate: () => void;
+  handleNudge: (dx: number, dy: number) => void;
+  handleReorder: (action: ZOrderAction) => void;
+  setTool: (tool: ToolType) => void;
+}
+
+/**
+ * Returns a keydown handler for the board container, so shortcuts only
+ * apply to the board that has focus.
+ */
+export const useKeyboardShortcuts = ({
+  shortcuts,
+  enabled,
+  undo,
+  redo,
+  handleDelete,
+  handleDeselect,
+  handleDuplicate,
+  handleNudge,
+  handleReorder,
+  setTool,
+}: KeyboardShortcutsProps) => {
+  return useCallback(
+    (event: React.KeyboardEvent) => {
+      if (!enabled || shortcuts === false) return;
+      if (isEditableTarget(event.target)) return;
+
+      const bindings = { ...DEFAULT_SHORTCUTS, ...shortcuts };
+      const action = (Object.keys(bindings) as ShortcutAction[]).find(
+        (name) => {
+          const binding = bindings[name];
+          if (!binding) return false;
+          return (Array.isArray(binding) ? binding : [binding]).some((b) =>
+            matches(event, b, name in NUDGES)
+          );
+        }
+      );
+      if (!action) return;
+      event.preventDefault();
+
+      const nudge = NUDGES[action];
+      const reorder = REORDERS[action];
+      if (nudge) {
+        const step = event.shiftKey ? 10 : 1;
+        handleNudge(nudge[0] * step, nudge[1] * step);
+      } else if (reorder) {
+        handleReorder(reorder);
+      } else if (action === "undo") {
+        undo();
+      } else if (action === "redo") {
+        redo();
+      } else if (action === "delete") {
+        handleDelete();
+      } else if (action === "deselect") {
+        handleDeselect();
+      } else if (action === "duplicate") {
+        handleDuplicate();
+      } else if (TOOLS.includes(action as ToolType)) {
+        setTool(action as ToolType);
+      }
+    },
+    [
+      shortcuts,
+      enabled,
+      undo,
+      redo,
+      handleDelete,
+      handleDeselect,
+      handleDuplicate,
+      handleNudge,
+      handleReorder,
+      setTool,
+    ]
+  );
+};
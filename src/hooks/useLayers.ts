@@ -0,0 +1,69 @@
+import { useCallback, useState } from "react";
+import { Layer } from "../components/ArtBoard";
+import { createObjectId } from "../utils/id";
+import { createDefaultLayers } from "../utils/layers";
+
+/**
+ * Manages the board's layers and the active layer new objects are drawn on.
+ * Layers are kept bottom to top.
+ */
+export const useLayers = () => {
+  const [layers, setLayersState] = useState<Layer[]>(createDefaultLayers);
+  const [activeLayer, setActiveLayer] = useState(layers[0].id);
+
+  // Replaces every layer, e.g. when a scene is loaded. There is always at
+  // least one.
+  const setLayers = useCallback((next: Layer[]) => {
+    const list = next.length > 0 ? next : createDefaultLayers();
+    setLayersState(list);
+    setActiveLayer(list[list.length - 1].id);
+  }, []);
+
+  // Adds a layer on top and makes it active
+  const addLayer = useCallback(() => {
+    const id = createObjectId();
+    setLayersState((prev) => [
+      ...prev,
+      {
+        id,
+        name: `Layer ${prev.length + 1}`,
+        visible: true,
+        locked: false,
+      },
+    ]);
+    setActiveLayer(id);
+  }, []);
+
+  const renameLayer = useCallback((id: string, name: string) => {
+    setLayersState((prev) =>
+      prev.map((layer) => (layer.id === id ? { ...layer, name } : layer))
+    );
+  }, []);
+
+  const toggleLayerVisible = useCallback((id: string) => {
+    setLayersState((prev) =>
+      prev.map((layer) =>
+        layer.id === id ? { ...layer, visible: !layer.visible } : layer
+      )
+    );
+  }, []);
+
+  const toggleLayerLocked = useCallback((id: string) => {
+    setLayersState((prev) =>
+      prev.map((layer) =>
+        layer.id === id ? { ...layer, locked: !layer.locked } : layer
+      )
+    );
+  }, []);
+
+  return {
+    layers,
+    setLayers,
+    activeLayer,
+    setActiveLayer,
+    addLayer,
+    renameLayer,
+    toggleLayerVisible,
+    toggleLayerLocked,
+  };
+};
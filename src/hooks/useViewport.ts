@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { DrawingObject, View } from "../components/ArtBoard";
+import { clampScale, DEFAULT_VIEW, fitView, zoomAt } from "../utils/view";
+import { isEditableTarget } from "./useKeyboardShortcuts";
+
+type Point = { x: number; y: number };
+
+// Zoom step of the zoom in/out buttons
+const ZOOM_STEP = 1.25;
+
+interface ViewportProps {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  objects: DrawingObject[];
+  width: number;
+  height: number;
+  // Whether any drag pans, as when nothing on the board can be edited
+  dragToPan?: boolean;
+}
+
+// Position of a client point on the canvas, inside its border
+const canvasPoint = (canvas: HTMLElement, clientX: number, clientY: number) => {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: clientX - rect.left - canvas.clientLeft,
+    y: clientY - rect.top - canvas.clientTop,
+  };
+};
+
+// Distance between and midpoint of the first two touches, on the canvas
+const touchPair = (
+  e: React.TouchEvent<HTMLCanvasElement>,
+  canvas: HTMLCanvasElement
+): { distance: number; center: Point } => {
+  const [a, b] = [e.touches[0], e.touches[1]];
+  return {
+    distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+    center: canvasPoint(
+      canvas,
+      (a.clientX + b.clientX) / 2,
+      (a.clientY + b.clientY) / 2
+    ),
+  };
+};
+
+/**
+ * Manages the zoom and pan of the canvas: Ctrl+wheel and pinch zoom,
+ * panning by dragging with Space held or the middle mouse button, and zoom
+ * controls. With `dragToPan`, a plain drag pans as well.
+ */
+export const useViewport = ({
+  canvasRef,
+  objects,
+  width,
+  height,
+  dragToPan = false,
+}: ViewportProps) => {
+  const [view, setViewState] = useState<View>(DEFAULT_VIEW);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+
+  // Last pointer position of a pan drag
+  const panRef = useRef<Point | null>(null);
+  // View and touch pair when a pinch started; kept until every finger lifts
+  const pinchRef = useRef<{
+    view: View;
+    distance: number;
+    center: Point;
+  } | null>(null);
+
+  const setView = useCallback((next: View) => {
+    setViewState({ ...next, scale: clampScale(next.scale) });
+  }, []);
+
+  // Ctrl+wheel zooms around the pointer, leaving a plain wheel to scroll the
+  // page. Trackpad pinches arrive as wheel events with Ctrl held and small
+  // deltas, so they get a larger step.
+  const zoomOnWheel = useCallback((e: WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    // Instead of the browser zooming the page
+    e.preventDefault();
+    const at = canvasPoint(
+      e.currentTarget as HTMLElement,
+      e.clientX,
+      e.clientY
+    );
+    const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.002));
+    setViewState((prev) => zoomAt(prev, factor, at));
+  }, []);
+
+  // The canvas the wheel listener is on. It is checked after every render,
+  // since the canvas may mount after the first, as when a custom layout
+  // shows ArtBoardCanvas later.
+  const wheelRef = useRef<{
+    canvas: HTMLCanvasElement;
+    detach: () => void;
+  } | null>(null);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (wheelRef.current?.canvas === canvas) return;
+    wheelRef.current?.detach();
+    wheelRef.current = null;
+    if (!canvas) return;
+    // Not passive, so the page can be kept from zooming
+    canvas.addEventListener("wheel", zoomOnWheel, { passive: false });
+    wheelRef.current = {
+      canvas,
+      detach: () => canvas.removeEventListener("wheel", zoomOnWheel),
+    };
+  });
+  useEffect(
+    () => () => {
+      wheelRef.current?.detach();
+      wheelRef.current = null;
+    },
+    []
+  );
+
+  const zoomBy = useCallback(
+    (factor: number) => {
+      setViewState((prev) =>
+        zoomAt(prev, factor, { x: width / 2, y: height / 2 })
+      );
+    },
+    [width, height]
+  );
+
+  const zoomIn = useCallback(() => zoomBy(ZOOM_STEP), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy]);
+
+  // Back to 100%, keeping the center of the viewport in place
+  const resetZoom = useCallback(() => {
+    setViewState((prev) =>
+      zoomAt(prev, 1 / prev.scale, { x: width / 2, y: height / 2 })
+    );
+  }, [width, height]);
+
+  const zoomToFit = useCallback(() => {
+    setViewState(fitView(objects, width, height));
+  }, [objects, width, height]);
+
+  // Space only pans while held over a focused board, not while typing
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key !== " " || isEditableTarget(e.target)) return;
+    e.preventDefault();
+    setSpaceHeld(true);
+  }, []);
+
+  const handleKeyUp = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === " ") setSpaceHeld(false);
+  }, []);
+
+  /**
+   * Starts a pan on middle mouse or Space+drag.
+   * @returns {boolean} Whether the event was taken by the pan.
+   */
+  const handlePanStart = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (e.button !== 1 && !spaceHeld && !(dragToPan && e.button === 0)) {
+        return false;
+      }
+      e.preventDefault();
+      panRef.current = { x: e.clientX, y: e.clientY };
+      setIsPanning(true);
+      return true;
+    },
+    [spaceHeld, dragToPan]
+  );
+
+  const handlePanMove = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      const last = panRef.current;
+      if (!last) return false;
+      const dx = e.clientX - last.x;
+      const dy = e.clientY - last.y;
+      panRef.current = { x: e.clientX, y: e.clientY };
+      setViewState((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+      return true;
+    },
+    []
+  );
+
+  const handlePanEnd = useCallback(() => {
+    if (!panRef.current) return false;
+    panRef.current = null;
+    setIsPanning(false);
+    return true;
+  }, []);
+
+  /**
+   * Starts a pinch when a second finger touches the canvas.
+   * @returns {boolean} Whether the event was taken by the pinch.
+   */
+  const handlePinchStart = useCallback(
+    (e: React.TouchEvent<HTMLCanvasElement>) => {
+      const canvas = canvasRef.current;
+      if (!canvas || e.touches.length < 2) return pinchRef.current !== null;
+      e.preventDefault();
+      pinchRef.current = {
+        view,
+        ...touchPair(e, canvas),
+      };
+      return true;
+    },
+    [canvasRef, view]
+  );
+
+  // Zoom by the change in finger spread and pan by the midpoint's movement
+  const handlePinchMove = useCallback(
+    (e: React.TouchEvent<HTMLCanvasElement>) => {
+      const pinch = pinchRef.current;
+      const canvas = canvasRef.current;
+      if (!pinch || !canvas) return false;
+      e.preventDefault();
+      if (e.touches.length < 2) return true;
+
+      const { distance, center } = touchPair(e, canvas);
+      const zoomed = zoomAt(
+        pinch.view,
+        distance / Math.max(pinch.distance, 1),
+        pinch.center
+      );
+      setViewState({
+        ...zoomed,
+        x: zoomed.x + center.x - pinch.center.x,
+        y: zoomed.y + center.y - pinch.center.y,
+      });
+      return true;
+    },
+    [canvasRef]
+  );
+
+  // Whether a pinch is in progress, until every finger has lifted
+  const isPinching = useCallback(() => pinchRef.current !== null, []);
+
+  const handlePinchEnd = useCallback(
+    (e: React.TouchEvent<HTMLCanvasElement>) => {
+      if (!pinchRef.current) return false;
+      e.preventDefault();
+      if (e.touches.length === 0) pinchRef.current = null;
+      return true;
+    },
+    []
+  );
+
+  return {
+    view,
+    setView,
+    spaceHeld,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    zoomToFit,
+    handleKeyDown,
+    handleKeyUp,
+    handlePanStart,
+    handlePanMove,
+    handlePanEnd,
+    handlePinchStart,
+    handlePinchMove,
+    handlePinchEnd,
+    isPinching,
+  };
+};
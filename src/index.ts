@@ -1,5 +1,85 @@
-import type { ArtBoardRef } from "./components/ArtBoard";
+import type {
+  ArtBoardProps,
+  ArtBoardRef,
+  AssetResolver,
+  BackgroundFit,
+  BrushOptions,
+  DrawingObject,
+  EraserMode,
+  ExportOptions,
+  FillStyle,
+  Layer,
+  NewDrawingObject,
+  ObjectsChangeReason,
+  ToolbarPosition,
+  ToolType,
+  View,
+} from "./components/ArtBoard";
 import ArtBoard from "./components/ArtBoard";
+import type { ArtBoardCanvasProps } from "./components/ArtBoardCanvas";
+import ArtBoardCanvas from "./components/ArtBoardCanvas";
+import type { ActionButtonsProps } from "./components/Tools/ActionButtons";
+import ActionButtons from "./components/Tools/ActionButtons";
+import type { ShapesProps } from "./components/Tools/Shapes";
+import { Shapes } from "./components/Tools/Shapes";
+import type { SliderProps } from "./components/Tools/Slider";
+import Slider from "./components/Tools/Slider";
+import type { ArtBoardController, ArtBoardOptions } from "./hooks/useArtBoard";
+import { useArtBoard } from "./hooks/useArtBoard";
+import type { ShortcutAction, ShortcutMap } from "./hooks/useKeyboardShortcuts";
+import { DEFAULT_SHORTCUTS } from "./hooks/useKeyboardShortcuts";
+import type { ZOrderAction } from "./utils/layers";
+import type { SceneDocument } from "./utils/scene";
+import {
+  parseScene,
+  SCENE_VERSION,
+  SceneError,
+  SceneParseError,
+  SceneVersionError,
+  serializeScene,
+} from "./utils/scene";
+import { objectsToSVG } from "./utils/svg";
 
 export default ArtBoard;
-export type { ArtBoardRef };
+export type {
+  ActionButtonsProps,
+  ArtBoardCanvasProps,
+  ArtBoardController,
+  ArtBoardOptions,
+  ArtBoardProps,
+  ArtBoardRef,
+  AssetResolver,
+  BackgroundFit,
+  BrushOptions,
+  DrawingObject,
+  EraserMode,
+  ExportOptions,
+  FillStyle,
+  Layer,
+  NewDrawingObject,
+  ObjectsChangeReason,
+  SceneDocument,
+  ShapesProps,
+  ShortcutAction,
+  ShortcutMap,
+  SliderProps,
+  ToolbarPosition,
+  ToolType,
+  View,
+  ZOrderAction,
+};
+export {
+  ActionButtons,
+  ArtBoardCanvas,
+  DEFAULT_SHORTCUTS,
+  objectsToSVG,
+  parseScene,
+  SCENE_VERSION,
+  SceneError,
+  SceneParseError,
+  SceneVersionError,
+  serializeScene,
+  Shapes,
+  Slider,
+  useArtBoard,
+};
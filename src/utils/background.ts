@@ -0,0 +1,30 @@
+import { BackgroundFit } from "../components/ArtBoard";
+
+/**
+ * Where a background image of `imageWidth` by `imageHeight` pixels goes in
+ * a drawing area of `width` by `height`. Unless stretched, it keeps its
+ * aspect ratio and is centered; anything outside the area is cropped.
+ */
+export const backgroundRect = (
+  imageWidth: number,
+  imageHeight: number,
+  width: number,
+  height: number,
+  fit: BackgroundFit
+) => {
+  if (fit === "stretch" || imageWidth === 0 || imageHeight === 0) {
+    return { x: 0, y: 0, width, height };
+  }
+  let scale = 1;
+  if (fit === "contain") {
+    scale = Math.min(width / imageWidth, height / imageHeight);
+  } else if (fit === "cover") {
+    scale = Math.max(width / imageWidth, height / imageHeight);
+  }
+  return {
+    x: (width - imageWidth * scale) / 2,
+    y: (height - imageHeight * scale) / 2,
+    width: imageWidth * scale,
+    height: imageHeight * scale,
+  };
+};
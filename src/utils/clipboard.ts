@@ -0,0 +1,68 @@
+import { DrawingObject } from "../components/ArtBoard";
+import { moveObject } from "./handles";
+import { createObjectId } from "./id";
+import { parseObjects, SCENE_VERSION, SceneError } from "./scene";
+
+/**
+ * MIME type of drawing objects on the clipboard, so they can be pasted into
+ * another board.
+ */
+export const CLIPBOARD_MIME = "application/x-enarc-artboard+json";
+
+/**
+ * The same type as a web custom format, for the async Clipboard API, which
+ * only takes standard types otherwise.
+ */
+export const WEB_CLIPBOARD_MIME = `web ${CLIPBOARD_MIME}`;
+
+/**
+ * How far, in drawing units, pasted and duplicated copies are offset from
+ * the objects they copy. Repeated pastes step further each time.
+ */
+export const PASTE_OFFSET = 10;
+
+/**
+ * Serializes objects for the clipboard.
+ */
+export const serializeClipboard = (objects: DrawingObject[]) =>
+  JSON.stringify({
+    version: SCENE_VERSION,
+    objects: objects.map((obj) => ({ ...obj, selected: false })),
+  });
+
+/**
+ * Reads objects written by `serializeClipboard`.
+ *
+ * @returns {DrawingObject[] | null} The objects, or null if the data is
+ * malformed or from a newer version.
+ */
+export const parseClipboard = (data: string): DrawingObject[] | null => {
+  try {
+    const raw = JSON.parse(data);
+    if (typeof raw?.version !== "number" || raw.version > SCENE_VERSION) {
+      return null;
+    }
+    return parseObjects(raw.objects);
+  } catch (error) {
+    if (error instanceof SyntaxError || error instanceof SceneError) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Copies objects with new IDs, moved by `offset` in both directions and
+ * placed on `layer` if given.
+ */
+export const copyObjects = (
+  objects: DrawingObject[],
+  offset: number,
+  layer?: string
+): DrawingObject[] =>
+  objects.map((obj) => ({
+    ...moveObject(obj, offset, offset),
+    id: createObjectId(),
+    selected: false,
+    ...(layer !== undefined && { layer }),
+  }));
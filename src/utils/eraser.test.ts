@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { DrawingObject } from "../components/ArtBoard";
+import { eraseObjects } from "./eraser";
+import { getObjectBounds } from "./hitTest";
+
+const object = (
+  id: string,
+  type: DrawingObject["type"],
+  points: DrawingObject["points"]
+): DrawingObject => {
+  const obj: DrawingObject = {
+    id,
+    type,
+    points,
+    stroke: "#000000",
+    strokeWidth: 2,
+    bounds: { x: 0, y: 0, width: 0, height: 0 },
+    selected: false,
+  };
+  return { ...obj, bounds: getObjectBounds(obj) };
+};
+
+// A horizontal stroke with a point every 10px from x = 0 to 100
+const stroke = (id: string, type: DrawingObject["type"] = "brush") =>
+  object(
+    id,
+    type,
+    Array.from({ length: 11 }, (_, i) => ({ x: i * 10, y: 0 }))
+  );
+
+describe("eraseObjects", () => {
+  it("splits a stroke where the eraser crosses it", () => {
+    const pieces = eraseObjects(
+      [stroke("a")],
+      { x: 50, y: -20 },
+      { x: 50, y: 20 },
+      2
+    );
+    expect(pieces).toHaveLength(2);
+    // The first piece keeps the stroke's ID
+    expect(pieces[0].id).toBe("a");
+    expect(pieces[1].id).not.toBe("a");
+    expect(pieces[0].points.map((p) => p.x)).toEqual([0, 10, 20, 30, 40]);
+    expect(pieces[1].points.map((p) => p.x)).toEqual([60, 70, 80, 90, 100]);
+    expect(pieces[1].bounds).toEqual({ x: 60, y: 0, width: 40, height: 0 });
+  });
+
+  it("splits a stroke crossed between two of its points", () => {
+    const long = object("a", "brush", [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+    ]);
+    const pieces = eraseObjects([long], { x: 50, y: -20 }, { x: 50, y: 20 }, 2);
+    expect(pieces.map((piece) => piece.points)).toEqual([
+      [
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+      ],
+    ]);
+  });
+
+  it("drops pieces too short to draw", () => {
+    const pieces = eraseObjects(
+      [stroke("a")],
+      { x: 10, y: -20 },
+      { x: 10, y: 20 },
+      2
+    );
+    expect(pieces.map((piece) => piece.points.length)).toEqual([9]);
+  });
+
+  it("removes shapes it touches whole", () => {
+    const rect = object("r", "rect", [
+      { x: 0, y: 0 },
+      { x: 100, y: 100 },
+    ]);
+    const result = eraseObjects([rect], { x: 0, y: 50 }, { x: 0, y: 50 }, 2);
+    expect(result).toEqual([]);
+  });
+
+  it("returns the same list when nothing is erased", () => {
+    const objects = [stroke("a")];
+    expect(eraseObjects(objects, { x: 50, y: 50 }, { x: 60, y: 50 }, 2)).toBe(
+      objects
+    );
+  });
+
+  it("leaves pixel eraser strokes and filtered objects alone", () => {
+    const objects = [stroke("e", "eraser"), stroke("locked")];
+    const result = eraseObjects(
+      objects,
+      { x: 50, y: -20 },
+      { x: 50, y: 20 },
+      2,
+      (obj) => obj.id !== "locked"
+    );
+    expect(result).toBe(objects);
+  });
+});
@@ -0,0 +1,113 @@
+import { DrawingObject } from "../components/ArtBoard";
+import { createObjectId } from "./id";
+import {
+  distanceToObject,
+  distanceToSegment,
+  getObjectBounds,
+} from "./hitTest";
+import { isFreehand } from "./shapes";
+
+type Point = { x: number; y: number };
+
+// Points along the eraser path, close enough that none of them skip a shape
+const samplePath = (from: Point, to: Point, radius: number) => {
+  const steps = Math.ceil(
+    Math.hypot(to.x - from.x, to.y - from.y) / Math.max(radius, 1)
+  );
+  const samples = [from];
+  for (let i = 1; i <= steps; i++) {
+    samples.push({
+      x: from.x + ((to.x - from.x) * i) / steps,
+      y: from.y + ((to.y - from.y) * i) / steps,
+    });
+  }
+  return samples;
+};
+
+// Split a freehand stroke wherever the eraser path passes over it, keeping
+// the surviving runs that are still long enough to draw. The first piece
+// keeps the stroke's ID. Returns null if the stroke was not touched.
+const splitStroke = (
+  obj: DrawingObject,
+  from: Point,
+  to: Point,
+  samples: Point[],
+  reach: number
+): DrawingObject[] | null => {
+  const runs: Point[][] = [];
+  let run: Point[] = [];
+
+  obj.points.forEach((point, i) => {
+    const erased = distanceToSegment(point, from, to) <= reach;
+    // A long segment can cross the eraser without either end being hit
+    const crossed =
+      i > 0 &&
+      run.length > 0 &&
+      samples.some(
+        (sample) => distanceToSegment(sample, obj.points[i - 1], point) <= reach
+      );
+
+    if (erased || crossed) {
+      if (run.length > 0) runs.push(run);
+      run = erased ? [] : [point];
+    } else {
+      run.push(point);
+    }
+  });
+  if (run.length > 0) runs.push(run);
+  if (runs.length === 1 && runs[0].length === obj.points.length) return null;
+
+  return runs
+    .filter((points) => points.length > 1)
+    .map((points, i) => {
+      const id = i === 0 ? obj.id : createObjectId();
+      const piece = { ...obj, id, points, selected: false };
+      return { ...piece, bounds: getObjectBounds(piece) };
+    });
+};
+
+/**
+ * Applies an object eraser dragged from `from` to `to`.
+ * Shapes the eraser touches are removed whole, and freehand strokes are split
+ * where it passes over them. Pixel eraser strokes are left alone.
+ *
+ * @param {number} radius - Radius of the eraser in pixels.
+ * @param filter - Objects it returns false for, such as those on locked
+ * layers, are left alone.
+ * @returns {DrawingObject[]} The new object list, or `objects` itself if
+ * nothing was erased.
+ */
+export const eraseObjects = (
+  objects: DrawingObject[],
+  from: Point,
+  to: Point,
+  radius: number,
+  filter: (obj: DrawingObject) => boolean = () => true
+): DrawingObject[] => {
+  let changed = false;
+  const result: DrawingObject[] = [];
+  const samples = samplePath(from, to, radius);
+
+  objects.forEach((obj) => {
+    const reach = radius + obj.strokeWidth / 2;
+    if (obj.type === "eraser" || !filter(obj)) {
+      result.push(obj);
+    } else if (isFreehand(obj)) {
+      const pieces = splitStroke(obj, from, to, samples, reach);
+      if (pieces) {
+        changed = true;
+        result.push(...pieces);
+      } else {
+        result.push(obj);
+      }
+    } else if (
+      samples.some((sample) => distanceToObject(obj, sample) <= reach)
+    ) {
+      changed = true;
+    } else {
+      result.push(obj);
+    }
+  });
+
+  return changed ? result : objects;
+};
@@ -0,0 +1,169 @@
+import { DrawingObject } from "../components/ArtBoard";
+import { getObjectBounds } from "./hitTest";
+import { DEFAULT_FONT_SIZE } from "./text";
+
+type Bounds = DrawingObject["bounds"];
+
+/**
+ * Size of a resize handle in pixels.
+ */
+export const HANDLE_SIZE = 8;
+
+// Direction of each handle along x and y, clockwise from the top-left corner:
+// nw, n, ne, e, se, s, sw, w.
+const HANDLE_DIRECTIONS: [number, number][] = [
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+  [-1, 0],
+];
+
+/**
+ * CSS cursor for each handle, indexed like `getHandlePositions`.
+ */
+export const HANDLE_CURSORS = [
+  "nwse-resize",
+  "ns-resize",
+  "nesw-resize",
+  "ew-resize",
+  "nwse-resize",
+  "ns-resize",
+  "nesw-resize",
+  "ew-resize",
+];
+
+/**
+ * Returns the centers of the eight resize handles around `bounds`.
+ */
+export const getHandlePositions = (bounds: Bounds) =>
+  HANDLE_DIRECTIONS.map(([dx, dy]) => ({
+    x: bounds.x + ((dx + 1) / 2) * bounds.width,
+    y: bounds.y + ((dy + 1) / 2) * bounds.height,
+  }));
+
+/**
+ * Returns the index of the handle under `pos`, or null if there is none.
+ *
+ * @param {number} scale - The zoom level, so handles keep their size on screen.
+ */
+export const getHandleAtPoint = (
+  bounds: Bounds,
+  pos: { x: number; y: number },
+  scale = 1
+): number | null => {
+  const reach = HANDLE_SIZE / scale;
+  const index = getHandlePositions(bounds).findIndex(
+    (handle) =>
+      Math.abs(pos.x - handle.x) <= reach && Math.abs(pos.y - handle.y) <= reach
+  );
+  return index === -1 ? null : index;
+};
+
+// Scale along one axis, measured from the edge opposite the handle.
+const axisScale = (
+  direction: number,
+  start: number,
+  size: number,
+  pos: number
+) => {
+  if (direction === 0 || size === 0) return 1;
+  const dragged = direction === 1 ? pos - start : start + size - pos;
+  return Math.max(dragged, 1) / size;
+};
+
+// New start of an axis so the opposite edge (or the center) stays put.
+const axisStart = (
+  direction: number,
+  start: number,
+  size: number,
+  newSize: number
+) => {
+  if (direction === 1) return start;
+  if (direction === -1) return start + size - newSize;
+  return start + (size - newSize) / 2;
+};
+
+/**
+ * Moves an object and its bounds by `dx`, `dy`.
+ *
+ * @returns {DrawingObject} A moved copy of the object.
+ */
+export const moveObject = (
+  obj: DrawingObject,
+  dx: number,
+  dy: number
+): DrawingObject => ({
+  ...obj,
+  bounds: { ...obj.bounds, x: obj.bounds.x + dx, y: obj.bounds.y + dy },
+  points: obj.points.map((point) => ({
+    ...point,
+    x: point.x + dx,
+    y: point.y + dy,
+  })),
+});
+
+/**
+ * Resizes an object by dragging one of its handles to `pos`.
+ * The edge or corner opposite the handle stays fixed, and every point is
+ * rescaled to the new bounds. Circles, stored as their center and a point
+ * on their circumference, always scale both axes equally so their radius
+ * changes rather than their center moving.
+ *
+ * Pass the object as it was when the drag started. The bounds of arrows and
+ * text are not a plain box around their points, so resizing an already
+ * resized copy drifts.
+ *
+ * @param {boolean} keepAspect - Scale both axes equally (e.g. while Shift is held).
+ * @returns {DrawingObject} A resized copy of the object.
+ */
+export const resizeObject = (
+  obj: DrawingObject,
+  handle: number,
+  pos: { x: number; y: number },
+  keepAspect: boolean
+): DrawingObject => {
+  const { x, y, width, height } = obj.bounds;
+  const [dirX, dirY] = HANDLE_DIRECTIONS[handle];
+  let scaleX = axisScale(dirX, x, width, pos.x);
+  let scaleY = axisScale(dirY, y, height, pos.y);
+
+  if (keepAspect || obj.type === "circle") {
+    if (dirX === 0) {
+      scaleX = scaleY;
+    } else if (dirY === 0) {
+      scaleY = scaleX;
+    } else {
+      scaleX = scaleY = Math.max(scaleX, scaleY);
+    }
+  }
+
+  const newWidth = width * scaleX;
+  const newHeight = height * scaleY;
+  const newX = axisStart(dirX, x, width, newWidth);
+  const newY = axisStart(dirY, y, height, newHeight);
+
+  const resized: DrawingObject = {
+    ...obj,
+    points: obj.points.map((point) => ({
+      ...point,
+      x: newX + (point.x - x) * scaleX,
+      y: newY + (point.y - y) * scaleY,
+    })),
+  };
+
+  // Text scales through its font size, which sets its width as well
+  if (obj.type === "text") {
+    resized.fontSize = Math.max(
+      (obj.fontSize ?? DEFAULT_FONT_SIZE) * scaleY,
+      1
+    );
+  }
+  // The box the object is drawn in, which for a circle or text is not the
+  // rescaled box
+  resized.bounds = getObjectBounds(resized);
+  return resized;
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { DrawingObject } from "../components/ArtBoard";
+import {
+  distanceToPolyline,
+  distanceToSegment,
+  getObjectBounds,
+  hitTestObject,
+} from "./hitTest";
+
+const shape = (
+  type: DrawingObject["type"],
+  points: DrawingObject["points"],
+  extra: Partial<DrawingObject> = {}
+): DrawingObject => {
+  const obj: DrawingObject = {
+    id: type,
+    type,
+    points,
+    stroke: "#000000",
+    strokeWidth: 2,
+    bounds: { x: 0, y: 0, width: 0, height: 0 },
+    selected: false,
+    ...extra,
+  };
+  return { ...obj, bounds: getObjectBounds(obj) };
+};
+
+describe("distanceToSegment", () => {
+  it("measures to the nearest point on the segment", () => {
+    const a = { x: 0, y: 0 };
+    const b = { x: 10, y: 0 };
+    expect(distanceToSegment({ x: 5, y: 3 }, a, b)).toBe(3);
+    expect(distanceToSegment({ x: 13, y: 4 }, a, b)).toBe(5);
+  });
+
+  it("treats a zero-length segment as a point", () => {
+    const a = { x: 1, y: 1 };
+    expect(distanceToSegment({ x: 4, y: 5 }, a, a)).toBe(5);
+  });
+});
+
+describe("distanceToPolyline", () => {
+  it("measures to the nearest segment", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+    ];
+    expect(distanceToPolyline({ x: 12, y: 5 }, points)).toBe(2);
+  });
+
+  it("is infinite without points", () => {
+    expect(distanceToPolyline({ x: 0, y: 0 }, [])).toBe(Infinity);
+  });
+});
+
+describe("hitTestObject", () => {
+  const corners = [
+    { x: 0, y: 0 },
+    { x: 100, y: 50 },
+  ];
+
+  it("hits a rectangle on its outline but not inside", () => {
+    const rect = shape("rect", corners);
+    expect(hitTestObject(rect, { x: 50, y: 1 })).toBe(true);
+    expect(hitTestObject(rect, { x: 50, y: 25 })).toBe(false);
+  });
+
+  it("hits anywhere inside a filled rectangle", () => {
+    const rect = shape("rect", corners, {
+      fill: { color: "#ff0000", opacity: 1 },
+    });
+    expect(hitTestObject(rect, { x: 50, y: 25 })).toBe(true);
+    expect(hitTestObject(rect, { x: 150, y: 25 })).toBe(false);
+  });
+
+  it("hits a circle on its circumference", () => {
+    const circle = shape("circle", [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+    ]);
+    expect(hitTestObject(circle, { x: 0, y: 10 })).toBe(true);
+    expect(hitTestObject(circle, { x: 0, y: 0 })).toBe(false);
+  });
+
+  it("hits a stroke along its path", () => {
+    const brush = shape("brush", [
+      { x: 0, y: 0 },
+      { x: 50, y: 0 },
+      { x: 50, y: 50 },
+    ]);
+    expect(hitTestObject(brush, { x: 25, y: 3 })).toBe(true);
+    expect(hitTestObject(brush, { x: 25, y: 25 })).toBe(false);
+  });
+});
+
+describe("getObjectBounds", () => {
+  it("covers the whole circle around its center", () => {
+    const circle = shape("circle", [
+      { x: 20, y: 20 },
+      { x: 30, y: 20 },
+    ]);
+    expect(circle.bounds).toEqual({ x: 10, y: 10, width: 20, height: 20 });
+  });
+});
@@ -0,0 +1,211 @@
+import { DrawingObject } from "../components/ArtBoard";
+import {
+  ellipseGeometry,
+  ellipseOutline,
+  isInsideOutline,
+  polygonOutline,
+} from "./shapes";
+import { DEFAULT_FONT_SIZE, measureText } from "./text";
+
+type Point = { x: number; y: number };
+
+/**
+ * Extra distance in pixels, beyond half the stroke width, that still counts
+ * as a hit.
+ */
+export const HIT_TOLERANCE = 4;
+
+/**
+ * Returns the shortest distance from `p` to the segment `a`-`b`.
+ */
+export const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(
+    0,
+    Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)
+  );
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Returns the shortest distance from `p` to a polyline through `points`.
+ */
+export const distanceToPolyline = (p: Point, points: Point[]) => {
+  if (points.length === 0) return Infinity;
+  if (points.length === 1) {
+    return Math.hypot(p.x - points[0].x, p.y - points[0].y);
+  }
+  let min = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    min = Math.min(min, distanceToSegment(p, points[i - 1], points[i]));
+  }
+  return min;
+};
+
+// Segments that make up an arrow, matching drawArrow in ArtBoard
+const arrowSegments = (start: Point, end: Point): [Point, Point][] => {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const headLen = 20;
+  return [
+    [start, end],
+    [
+      end,
+      {
+        x: end.x - headLen * Math.cos(angle - Math.PI / 6),
+        y: end.y - headLen * Math.sin(angle - Math.PI / 6),
+      },
+    ],
+    [
+      end,
+      {
+        x: end.x - headLen * Math.cos(angle + Math.PI / 6),
+        y: end.y - headLen * Math.sin(angle + Math.PI / 6),
+      },
+    ],
+  ];
+};
+
+/**
+ * Returns the distance from `p` to the visible outline of an object.
+ */
+export const distanceToObject = (obj: DrawingObject, p: Point) => {
+  switch (obj.type) {
+    case "brush":
+    case "highlighter":
+    case "eraser":
+    case "line":
+      return distanceToPolyline(p, obj.points);
+    case "ellipse": {
+      const ellipse = ellipseGeometry(obj);
+      if (!ellipse) return Infinity;
+      const { cx, cy, rx, ry } = ellipse;
+      // A filled ellipse is solid, so anywhere inside it counts
+      if (
+        obj.fill &&
+        rx > 0 &&
+        ry > 0 &&
+        ((p.x - cx) / rx) ** 2 + ((p.y - cy) / ry) ** 2 <= 1
+      ) {
+        return 0;
+      }
+      return distanceToPolyline(p, ellipseOutline(obj));
+    }
+    case "polygon": {
+      const outline = polygonOutline(obj);
+      if (obj.fill && obj.closed && isInsideOutline(p, outline)) return 0;
+      return distanceToPolyline(p, outline);
+    }
+    case "circle": {
+      const [center, circumference] = obj.points;
+      if (!center || !circumference) return Infinity;
+      const radius = Math.hypot(
+        center.x - circumference.x,
+        center.y - circumference.y
+      );
+      const fromCenter = Math.hypot(p.x - center.x, p.y - center.y);
+      // A filled circle is solid, so anywhere inside it counts
+      if (obj.fill && fromCenter <= radius) return 0;
+      return Math.abs(fromCenter - radius);
+    }
+    case "rect": {
+      const [start, end] = obj.points;
+      if (!start || !end) return Infinity;
+      if (
+        obj.fill &&
+        p.x >= Math.min(start.x, end.x) &&
+        p.x <= Math.max(start.x, end.x) &&
+        p.y >= Math.min(start.y, end.y) &&
+        p.y <= Math.max(start.y, end.y)
+      ) {
+        return 0;
+      }
+      return distanceToPolyline(p, [
+        start,
+        { x: end.x, y: start.y },
+        end,
+        { x: start.x, y: end.y },
+        start,
+      ]);
+    }
+    case "text":
+    case "image": {
+      // Text and images are solid, so anywhere inside their box counts
+      const { x, y, width, height } = getObjectBounds(obj);
+      const dx = Math.max(x - p.x, 0, p.x - (x + width));
+      const dy = Math.max(y - p.y, 0, p.y - (y + height));
+      return Math.hypot(dx, dy);
+    }
+    case "arrow": {
+      const [start, end] = obj.points;
+      if (!start || !end) return Infinity;
+      return Math.min(
+        ...arrowSegments(start, end).map(([a, b]) => distanceToSegment(p, a, b))
+      );
+    }
+  }
+};
+
+/**
+ * Whether `p` lies on the stroke of an object, within `HIT_TOLERANCE`.
+ */
+export const hitTestObject = (obj: DrawingObject, p: Point) =>
+  distanceToObject(obj, p) <= obj.strokeWidth / 2 + HIT_TOLERANCE;
+
+/**
+ * Computes the bounding box of an object from its geometry.
+ */
+export const getObjectBounds = (
+  obj: DrawingObject
+): DrawingObject["bounds"] => {
+  let points = obj.points;
+  if (obj.type === "circle") {
+    const [center, circumference] = obj.points;
+    if (center && circumference) {
+      const radius = Math.hypot(
+        center.x - circumference.x,
+        center.y - circumference.y
+      );
+      points = [
+        { x: center.x - radius, y: center.y - radius },
+        { x: center.x + radius, y: center.y + radius },
+      ];
+    }
+  } else if (obj.type === "text") {
+    const [origin] = obj.points;
+    if (origin) {
+      const size = measureText(
+        obj.text ?? "",
+        obj.fontSize ?? DEFAULT_FONT_SIZE
+      );
+      points = [
+        origin,
+        { x: origin.x + size.width, y: origin.y + size.height },
+      ];
+    }
+  } else if (obj.type === "arrow") {
+    const [start, end] = obj.points;
+    if (start && end) {
+      points = arrowSegments(start, end).reduce<Point[]>(
+        (all, segment) => all.concat(segment),
+        []
+      );
+    }
+  }
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  // Loop rather than spread, long strokes can have thousands of points
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  points.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
@@ -0,0 +1,10 @@
+/**
+ * Creates a unique ID for a drawing object.
+ */
+export const createObjectId = (): string => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  // Fallback for insecure contexts, where randomUUID is unavailable
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
@@ -0,0 +1,146 @@
+import { DrawingObject } from "../components/ArtBoard";
+import { createObjectId } from "./id";
+
+type Point = { x: number; y: number };
+
+/**
+ * Maps the `src` kept in an image object to a URL its image loads from.
+ */
+export type ResolveAsset = (src: string) => string;
+
+/**
+ * Loads images from the `src` they are stored with.
+ */
+export const keepSource: ResolveAsset = (src) => src;
+
+/**
+ * The CORS mode images are requested with, or null for none. Images from
+ * another origin must be requested with CORS to be drawn without tainting
+ * the canvas, which would make it impossible to export.
+ */
+export type CrossOrigin = "anonymous" | "use-credentials" | null;
+
+// Most images kept decoded; the least recently used beyond it are dropped
+const MAX_IMAGES = 500;
+
+// Decoded images by CORS mode and source, shared by every board on the page
+// while any is mounted
+const images = new Map<string, HTMLImageElement>();
+// Images that failed to load, kept so redraws do not request them again
+const failed = new WeakSet<HTMLImageElement>();
+const listeners = new Set<() => void>();
+
+const imageKey = (src: string, crossOrigin: CrossOrigin) =>
+  `${crossOrigin ?? "none"} ${src}`;
+
+/**
+ * Returns the image element for `src`, starting to load it the first time.
+ * Listeners registered with `onImageLoad` are told when it is ready. An
+ * image that fails to load stays failed until `loadImage` retries it.
+ */
+export const getImage = (src: string, crossOrigin: CrossOrigin = null) => {
+  const key = imageKey(src, crossOrigin);
+  let image = images.get(key);
+  if (image) {
+    // Keep it as the most recently used
+    images.delete(key);
+  } else {
+    const created = new Image();
+    if (crossOrigin !== null) created.crossOrigin = crossOrigin;
+    created.onload = () => listeners.forEach((listener) => listener());
+    created.onerror = () => failed.add(created);
+    created.src = src;
+    image = created;
+  }
+  images.set(key, image);
+  if (images.size > MAX_IMAGES) {
+    images.delete(images.keys().next().value as string);
+  }
+  return image;
+};
+
+/**
+ * Whether an image has loaded and can be drawn.
+ */
+export const isImageReady = (image: HTMLImageElement) =>
+  image.complete && image.naturalWidth > 0;
+
+/**
+ * Calls `listener` whenever an image requested through `getImage` finishes
+ * loading, so objects waiting for it can be drawn. Boards listen while they
+ * are mounted; once none is, the decoded images are let go.
+ *
+ * @returns {() => void} A function that removes the listener.
+ */
+export const onImageLoad = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) images.clear();
+  };
+};
+
+/**
+ * Loads an image, resolving once its natural size is known. An image that
+ * failed before is requested again.
+ */
+export const loadImage = (src: string, crossOrigin: CrossOrigin = null) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const key = imageKey(src, crossOrigin);
+    const cached = images.get(key);
+    if (cached && failed.has(cached)) images.delete(key);
+    const image = getImage(src, crossOrigin);
+    if (isImageReady(image)) {
+      resolve(image);
+      return;
+    }
+    image.addEventListener("load", () => resolve(image), { once: true });
+    image.addEventListener(
+      "error",
+      () => reject(new Error(`Failed to load image: ${src}`)),
+      { once: true }
+    );
+  });
+
+/**
+ * Reads a file, such as a pasted or dropped image, as a data URL.
+ */
+export const readAsDataURL = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Creates an image object at its natural size centered on `center`, scaled
+ * down to fit within `maxWidth` by `maxHeight` if it is larger.
+ */
+export const createImageObject = (
+  src: string,
+  naturalWidth: number,
+  naturalHeight: number,
+  center: Point,
+  maxWidth: number,
+  maxHeight: number
+): DrawingObject => {
+  const scale = Math.min(1, maxWidth / naturalWidth, maxHeight / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  const x = center.x - width / 2;
+  const y = center.y - height / 2;
+  return {
+    id: createObjectId(),
+    type: "image",
+    points: [
+      { x, y },
+      { x: x + width, y: y + height },
+    ],
+    stroke: "transparent",
+    strokeWidth: 0,
+    bounds: { x, y, width, height },
+    selected: false,
+    src,
+  };
+};
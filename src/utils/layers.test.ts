@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { DrawingObject } from "../components/ArtBoard";
+import { getObjectBounds } from "./hitTest";
+import { createDefaultLayers, objectAt } from "./layers";
+
+const line = (id: string, type: DrawingObject["type"]): DrawingObject => {
+  const obj: DrawingObject = {
+    id,
+    type,
+    points: [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+    ],
+    stroke: "#000000",
+    strokeWidth: 2,
+    bounds: { x: 0, y: 0, width: 0, height: 0 },
+    selected: false,
+  };
+  return { ...obj, bounds: getObjectBounds(obj) };
+};
+
+describe("objectAt", () => {
+  const layers = createDefaultLayers();
+
+  it("finds the topmost object at a point", () => {
+    const objects = [line("below", "brush"), line("above", "line")];
+    expect(objectAt(objects, layers, { x: 50, y: 0 })?.obj.id).toBe("above");
+  });
+
+  it("never finds pixel eraser strokes", () => {
+    const objects = [line("stroke", "brush"), line("eraser", "eraser")];
+    expect(objectAt(objects, layers, { x: 50, y: 0 })?.obj.id).toBe("stroke");
+    expect(objectAt([objects[1]], layers, { x: 50, y: 0 })).toBeUndefined();
+  });
+
+  it("skips objects on locked layers", () => {
+    const locked = layers.map((layer) => ({ ...layer, locked: true }));
+    expect(
+      objectAt([line("a", "brush")], locked, { x: 50, y: 0 })
+    ).toBeUndefined();
+  });
+});
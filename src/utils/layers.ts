@@ -0,0 +1,129 @@
+import { DrawingObject, Layer } from "../components/ArtBoard";
+import { hitTestObject } from "./hitTest";
+
+type Point = { x: number; y: number };
+
+/**
+ * ID of the layer every board starts with.
+ */
+export const DEFAULT_LAYER_ID = "default";
+
+export const createDefaultLayers = (): Layer[] => [
+  { id: DEFAULT_LAYER_ID, name: "Layer 1", visible: true, locked: false },
+];
+
+/**
+ * Moves in the z-order: to the top or bottom of the layer, or one step past
+ * the next object above or below on the same layer.
+ */
+export type ZOrderAction = "front" | "forward" | "backward" | "back";
+
+// Position of an object's layer; objects without a known layer are on the
+// bottom one
+const layerIndexOf = (obj: DrawingObject, layers: Layer[]) =>
+  Math.max(
+    layers.findIndex((layer) => layer.id === obj.layer),
+    0
+  );
+
+/**
+ * Indices of the objects on visible layers, in the order they are painted:
+ * layer by layer from the bottom, and in list order within a layer.
+ */
+export const drawingOrder = (objects: DrawingObject[], layers: Layer[]) =>
+  objects
+    .map((obj, index) => ({ index, layer: layerIndexOf(obj, layers) }))
+    .filter(({ layer }) => layers[layer]?.visible ?? true)
+    .sort((a, b) => a.layer - b.layer || a.index - b.index)
+    .map(({ index }) => index);
+
+/**
+ * The objects on visible layers in the order they are painted, e.g. for an
+ * export.
+ */
+export const visibleObjects = (objects: DrawingObject[], layers: Layer[]) =>
+  drawingOrder(objects, layers).map((index) => objects[index]);
+
+/**
+ * Whether an object can be picked on the canvas: its layer is visible and
+ * not locked.
+ */
+export const isEditable = (obj: DrawingObject, layers: Layer[]) => {
+  const layer = layers[layerIndexOf(obj, layers)];
+  return !layer || (layer.visible && !layer.locked);
+};
+
+/**
+ * Finds the topmost editable object at `pos` that passes `filter`. Pixel
+ * eraser strokes only cut into what is under them, so they are never found.
+ *
+ * @returns {{ obj: DrawingObject, index: number } | undefined} The object
+ * and its index in `objects`, or undefined if there is none.
+ */
+export const objectAt = (
+  objects: DrawingObject[],
+  layers: Layer[],
+  pos: Point,
+  filter: (obj: DrawingObject) => boolean = () => true
+) =>
+  drawingOrder(objects, layers)
+    .reverse()
+    .map((index) => ({ obj: objects[index], index }))
+    .find(
+      ({ obj }) =>
+        obj.type !== "eraser" &&
+        isEditable(obj, layers) &&
+        filter(obj) &&
+        hitTestObject(obj, pos)
+    );
+
+/**
+ * Moves the objects at `indices` in the z-order. Selected objects keep
+ * their order relative to each other and never pass one another.
+ *
+ * @returns The reordered list and the new indices of the moved objects.
+ */
+export const reorderObjects = (
+  objects: DrawingObject[],
+  indices: number[],
+  layers: Layer[],
+  action: ZOrderAction
+): { objects: DrawingObject[]; indices: number[] } => {
+  const moved = new Set(indices.map((i) => objects[i]));
+  let result: DrawingObject[];
+
+  if (action === "front" || action === "back") {
+    const rest = objects.filter((obj) => !moved.has(obj));
+    const chosen = objects.filter((obj) => moved.has(obj));
+    result = action === "front" ? [...rest, ...chosen] : [...chosen, ...rest];
+  } else {
+    result = [...objects];
+    const forward = action === "forward";
+    // Step the object nearest the target end first, so the others stop
+    // behind it
+    const order = [...indices].sort((a, b) => (forward ? b - a : a - b));
+    order.forEach((start) => {
+      const obj = objects[start];
+      const from = result.indexOf(obj);
+      const layer = layerIndexOf(obj, layers);
+      const sameLayer = (other: DrawingObject) =>
+        layerIndexOf(other, layers) === layer;
+      let to = -1;
+      if (forward) {
+        to = result.findIndex((other, i) => i > from && sameLayer(other));
+      } else if (from > 0) {
+        to = result.map(sameLayer).lastIndexOf(true, from - 1);
+      }
+      if (to === -1 || moved.has(result[to])) return;
+      result.splice(from, 1);
+      result.splice(to, 0, obj);
+    });
+  }
+
+  return {
+    objects: result,
+    indices: result
+      .map((obj, i) => (moved.has(obj) ? i : -1))
+      .filter((i) => i !== -1),
+  };
+};
@@ -0,0 +1,561 @@
+import {
+  BackgroundFit,
+  DrawingObject,
+  ExportOptions,
+  Layer,
+  View,
+} from "../components/ArtBoard";
+import { backgroundRect } from "./background";
+import {
+  CrossOrigin,
+  getImage,
+  isImageReady,
+  keepSource,
+  ResolveAsset,
+} from "./images";
+import { drawingOrder } from "./layers";
+import { ellipseGeometry, HIGHLIGHTER_OPACITY } from "./shapes";
+import { unionBounds } from "./snap";
+import {
+  hasPressure,
+  samplePoints,
+  smoothCurves,
+  strokeOutline,
+} from "./stroke";
+import { DEFAULT_FONT_SIZE, TEXT_LINE_HEIGHT, textFont } from "./text";
+import { DEFAULT_VIEW, scaleView } from "./view";
+
+const drawLine = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  if (hasPressure(obj.points)) {
+    drawPressureLine(ctx, obj);
+    return;
+  }
+  if (obj.points.length < 2) return;
+  ctx.beginPath();
+  ctx.moveTo(obj.points[0].x, obj.points[0].y);
+  if (obj.smooth) {
+    smoothCurves(obj.points).curves.forEach(({ control, end }) =>
+      ctx.quadraticCurveTo(control.x, control.y, end.x, end.y)
+    );
+  } else {
+    obj.points.forEach((p) => ctx.lineTo(p.x, p.y));
+  }
+  ctx.stroke();
+};
+
+// Pen strokes vary in width, so they are filled as an outline instead
+const drawPressureLine = (
+  ctx: CanvasRenderingContext2D,
+  obj: DrawingObject
+) => {
+  const points = obj.smooth ? samplePoints(obj.points) : obj.points;
+  const outline = strokeOutline(points, obj.strokeWidth);
+  if (outline.length === 0) return;
+  ctx.beginPath();
+  ctx.moveTo(outline[0].x, outline[0].y);
+  outline.forEach((p) => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+  ctx.fillStyle = obj.stroke;
+  ctx.fill();
+};
+
+// Fill the current path, under the stroke
+const fillShape = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  if (!obj.fill) return;
+  ctx.save();
+  ctx.globalAlpha = obj.fill.opacity;
+  ctx.fillStyle = obj.fill.color;
+  ctx.fill();
+  ctx.restore();
+};
+
+const drawCircle = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  const [center, circumference] = obj.points;
+  if (!center || !circumference) return;
+  const radius = Math.hypot(
+    center.x - circumference.x,
+    center.y - circumference.y
+  );
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI);
+  fillShape(ctx, obj);
+  ctx.stroke();
+};
+
+const drawRect = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  const [start, end] = obj.points;
+  if (!start || !end) return;
+  ctx.beginPath();
+  ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+  fillShape(ctx, obj);
+  ctx.stroke();
+};
+
+const drawEllipse = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  const ellipse = ellipseGeometry(obj);
+  if (!ellipse) return;
+  ctx.beginPath();
+  ctx.ellipse(
+    ellipse.cx,
+    ellipse.cy,
+    ellipse.rx,
+    ellipse.ry,
+    0,
+    0,
+    2 * Math.PI
+  );
+  fillShape(ctx, obj);
+  ctx.stroke();
+};
+
+// A closed polygon, or an open polyline
+const drawPolygon = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  if (obj.points.length < 2) return;
+  ctx.beginPath();
+  ctx.moveTo(obj.points[0].x, obj.points[0].y);
+  obj.points.forEach((p) => ctx.lineTo(p.x, p.y));
+  if (obj.closed) {
+    ctx.closePath();
+    fillShape(ctx, obj);
+  }
+  ctx.stroke();
+};
+
+const drawStraightLine = (
+  ctx: CanvasRenderingContext2D,
+  obj: DrawingObject
+) => {
+  const [start, end] = obj.points;
+  if (!start || !end) return;
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  const [start, end] = obj.points;
+  if (!start || !end) return;
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const headLen = 20;
+
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.lineTo(
+    end.x - headLen * Math.cos(angle - Math.PI / 6),
+    end.y - headLen * Math.sin(angle - Math.PI / 6)
+  );
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(
+    end.x - headLen * Math.cos(angle + Math.PI / 6),
+    end.y - headLen * Math.sin(angle + Math.PI / 6)
+  );
+  ctx.stroke();
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, obj: DrawingObject) => {
+  const [origin] = obj.points;
+  if (!origin || !obj.text) return;
+  const fontSize = obj.fontSize ?? DEFAULT_FONT_SIZE;
+  ctx.font = textFont(fontSize);
+  ctx.fillStyle = obj.stroke;
+  ctx.textBaseline = "top";
+  obj.text.split("\n").forEach((line, i) => {
+    ctx.fillText(line, origin.x, origin.y + i * fontSize * TEXT_LINE_HEIGHT);
+  });
+};
+
+// Images still loading are left out until they are ready
+const drawImageObject = (
+  ctx: CanvasRenderingContext2D,
+  obj: DrawingObject,
+  resolveAsset: ResolveAsset,
+  crossOrigin: CrossOrigin
+) => {
+  const [start, end] = obj.points;
+  if (!start || !end || !obj.src) return;
+  const image = getImage(resolveAsset(obj.src), crossOrigin);
+  if (!isImageReady(image)) return;
+  ctx.drawImage(image, start.x, start.y, end.x - start.x, end.y - start.y);
+};
+
+// Pixel erasers cut through what is under them, and highlighters darken it
+const COMPOSITE_OPERATIONS: Partial<
+  Record<DrawingObject["type"], GlobalCompositeOperation>
+> = {
+  eraser: "destination-out",
+  highlighter: "multiply",
+};
+
+/**
+ * Draws one object, erasing what is under it if it is a pixel eraser stroke.
+ *
+ * @param {ResolveAsset} resolveAsset - Maps the `src` of an image object to
+ * the URL its image loads from.
+ * @param {CrossOrigin} crossOrigin - The CORS mode that image is requested
+ * with.
+ */
+export const drawObject = (
+  ctx: CanvasRenderingContext2D,
+  obj: DrawingObject,
+  resolveAsset: ResolveAsset = keepSource,
+  crossOrigin: CrossOrigin = null
+) => {
+  ctx.globalCompositeOperation =
+    COMPOSITE_OPERATIONS[obj.type] ?? "source-over";
+  ctx.globalAlpha = obj.type === "highlighter" ? HIGHLIGHTER_OPACITY : 1;
+  ctx.strokeStyle = obj.stroke;
+  ctx.lineWidth = obj.strokeWidth;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  switch (obj.type) {
+    case "brush":
+    case "highlighter":
+    case "eraser":
+      drawLine(ctx, obj);
+      break;
+    case "circle":
+      drawCircle(ctx, obj);
+      break;
+    case "ellipse":
+      drawEllipse(ctx, obj);
+      break;
+    case "rect":
+      drawRect(ctx, obj);
+      break;
+    case "polygon":
+      drawPolygon(ctx, obj);
+      break;
+    case "line":
+      drawStraightLine(ctx, obj);
+      break;
+    case "arrow":
+      drawArrow(ctx, obj);
+      break;
+    case "text":
+      drawText(ctx, obj);
+      break;
+    case "image":
+      drawImageObject(ctx, obj, resolveAsset, crossOrigin);
+      break;
+  }
+};
+
+// Below this spacing on screen, in device pixels, the grid is left out
+const MIN_GRID_SPACING = 4;
+
+// Grid lines across the drawing area, one device pixel wide
+const drawGrid = (
+  ctx: CanvasRenderingContext2D,
+  gridSize: number,
+  width: number,
+  height: number,
+  view: View
+) => {
+  if (gridSize * view.scale < MIN_GRID_SPACING) return;
+  ctx.save();
+  ctx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+  ctx.beginPath();
+  for (let x = gridSize; x < width; x += gridSize) {
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+  }
+  for (let y = gridSize; y < height; y += gridSize) {
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+  }
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.1)";
+  ctx.lineWidth = 1 / view.scale;
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * Offscreen canvases reused from one frame to the next.
+ */
+export interface SceneCache {
+  layer: HTMLCanvasElement; // Objects of the current frame, over the cache.
+  committed: HTMLCanvasElement; // Bitmap of the committed objects.
+  // What `committed` was drawn from, or null if it has not been drawn
+  key: {
+    objects: DrawingObject[];
+    view: View;
+    backdrop: Backdrop | null; // Drawn under the objects, for highlighters.
+  } | null;
+}
+
+// The background image and grid the objects are drawn over
+interface Backdrop {
+  backgroundImage: HTMLImageElement | null;
+  backgroundFit: BackgroundFit;
+  width: number;
+  height: number;
+  gridSize: number;
+}
+
+const drawBackdrop = (
+  ctx: CanvasRenderingContext2D,
+  { backgroundImage, backgroundFit, width, height, gridSize }: Backdrop,
+  view: View
+) => {
+  // A reused cache may still be set up for the last object drawn on it
+  ctx.globalCompositeOperation = "source-over";
+  ctx.globalAlpha = 1;
+  ctx.save();
+  ctx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+  if (backgroundImage) {
+    const rect = backgroundRect(
+      backgroundImage.naturalWidth,
+      backgroundImage.naturalHeight,
+      width,
+      height,
+      backgroundFit
+    );
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
+    ctx.drawImage(backgroundImage, rect.x, rect.y, rect.width, rect.height);
+  }
+  ctx.restore();
+  if (gridSize > 0) drawGrid(ctx, gridSize, width, height, view);
+};
+
+const isSameBackdrop = (a: Backdrop | null, b: Backdrop | null) =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.backgroundImage === b.backgroundImage &&
+    a.backgroundFit === b.backgroundFit &&
+    a.width === b.width &&
+    a.height === b.height &&
+    a.gridSize === b.gridSize);
+
+export const createSceneCache = (): SceneCache => ({
+  layer: document.createElement("canvas"),
+  committed: document.createElement("canvas"),
+  key: null,
+});
+
+// Resizing clears a canvas, so only do it when the size changes.
+// Returns whether the canvas was resized.
+const fitCanvas = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number
+) => {
+  if (canvas.width === width && canvas.height === height) return false;
+  canvas.width = width;
+  canvas.height = height;
+  return true;
+};
+
+// Committed objects are kept by reference while a stroke is in progress, so
+// comparing them one by one is enough to tell whether the bitmap is current
+const isCacheCurrent = (
+  cache: SceneCache,
+  objects: DrawingObject[],
+  view: View,
+  backdrop: Backdrop | null
+) =>
+  cache.key !== null &&
+  isSameBackdrop(cache.key.backdrop, backdrop) &&
+  cache.key.view.scale === view.scale &&
+  cache.key.view.x === view.x &&
+  cache.key.view.y === view.y &&
+  cache.key.objects.length === objects.length &&
+  cache.key.objects.every((obj, i) => obj === objects[i]);
+
+/**
+ * Draws the background image and objects onto `ctx` through `view`.
+ *
+ * Objects are drawn on their own layer so pixel erasers never reach the
+ * background image. Highlighters multiply with what is under them, so when
+ * there are any, a copy of the background and grid goes under the objects on
+ * that layer; erasing it shows the background drawn below. Committed objects
+ * are cached in a bitmap, so while a stroke is in progress only that stroke
+ * is drawn again.
+ *
+ * @param {BackgroundFit} backgroundFit - How the background image is fitted
+ * to the drawing area.
+ * @param {number} skipIndex - An object to leave out, such as the text
+ * being edited in place.
+ * @param {Layer[]} layers - Layers to paint the objects by, leaving out
+ * hidden ones; without them objects are painted in list order.
+ * @param {number} gridSize - Spacing of a grid drawn over the background and
+ * under the objects, or 0 for none.
+ * @param {boolean} inProgress - Whether the last object is still being drawn.
+ * @param {ResolveAsset} resolveAsset - Maps the `src` of image objects to the
+ * URLs their images load from.
+ * @param {CrossOrigin} crossOrigin - The CORS mode those images are
+ * requested with.
+ * @param {SceneCache} cache - Canvases to reuse between calls; without one
+ * the scene is drawn from scratch.
+ */
+export const drawScene = (
+  ctx: CanvasRenderingContext2D,
+  {
+    objects,
+    backgroundImage,
+    backgroundFit = "stretch",
+    width,
+    height,
+    view,
+    skipIndex = null,
+    layers,
+    gridSize = 0,
+    inProgress = false,
+    resolveAsset = keepSource,
+    crossOrigin = null,
+  }: {
+    objects: DrawingObject[];
+    backgroundImage: HTMLImageElement | null;
+    backgroundFit?: BackgroundFit;
+    width: number;
+    height: number;
+    view: View;
+    skipIndex?: number | null;
+    layers?: Layer[];
+    gridSize?: number;
+    inProgress?: boolean;
+    resolveAsset?: ResolveAsset;
+    crossOrigin?: CrossOrigin;
+  },
+  cache: SceneCache = createSceneCache()
+) => {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+
+  const backdrop = { backgroundImage, backgroundFit, width, height, gridSize };
+  drawBackdrop(ctx, backdrop, view);
+
+  // The in-progress object is drawn on top until it is committed
+  const current = inProgress ? objects[objects.length - 1] : undefined;
+  const drawn = (
+    layers ? drawingOrder(objects, layers) : objects.map((_, i) => i)
+  )
+    .filter((index) => index !== skipIndex)
+    .map((index) => objects[index]);
+  const committed = drawn.filter((obj) => obj !== current);
+  // Highlighters multiply with the background image under them. The grid is
+  // left out, since it is already on `ctx` and would be drawn twice.
+  const underlay =
+    backgroundImage && drawn.some((obj) => obj.type === "highlighter")
+      ? { ...backdrop, gridSize: 0 }
+      : null;
+  if (fitCanvas(cache.committed, canvasWidth, canvasHeight)) cache.key = null;
+  if (!isCacheCurrent(cache, committed, view, underlay)) {
+    const committedCtx = cache.committed.getContext("2d");
+    if (!committedCtx) return;
+    committedCtx.setTransform(1, 0, 0, 1, 0, 0);
+    committedCtx.clearRect(0, 0, canvasWidth, canvasHeight);
+    if (underlay) drawBackdrop(committedCtx, underlay, view);
+    committedCtx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+    committed.forEach((obj) =>
+      drawObject(committedCtx, obj, resolveAsset, crossOrigin)
+    );
+    cache.key = { objects: committed, view, backdrop: underlay };
+  }
+
+  // The in-progress stroke goes on a copy of the cache, so a pixel eraser
+  // stroke erases committed objects but not the background
+  let result = cache.committed;
+  if (current && drawn.includes(current)) {
+    fitCanvas(cache.layer, canvasWidth, canvasHeight);
+    const layerCtx = cache.layer.getContext("2d");
+    if (!layerCtx) return;
+    layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+    layerCtx.globalCompositeOperation = "source-over";
+    layerCtx.globalAlpha = 1;
+    layerCtx.clearRect(0, 0, canvasWidth, canvasHeight);
+    layerCtx.drawImage(cache.committed, 0, 0);
+    layerCtx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+    drawObject(layerCtx, current, resolveAsset, crossOrigin);
+    result = cache.layer;
+  }
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.drawImage(result, 0, 0);
+  ctx.restore();
+};
+
+// Reads a canvas as a PNG data URL. Browsers refuse once an image from
+// another origin, loaded without CORS, has been drawn on it.
+const toPNG = (canvas: HTMLCanvasElement) => {
+  try {
+    return canvas.toDataURL("image/png");
+  } catch (error) {
+    throw new Error(
+      "Cannot export the drawing: it shows an image from another origin " +
+        "that was loaded without CORS",
+      { cause: error }
+    );
+  }
+};
+
+/**
+ * Renders the drawing at its own size, independent of the current view.
+ * The image is `pixelRatio` times the drawing size in each dimension.
+ *
+ * @returns {string} The drawing as a base64-encoded PNG data URL.
+ * @throws {Error} If a cross-origin image keeps the canvas from being read.
+ */
+export const sceneToDataURL = (
+  scene: {
+    objects: DrawingObject[];
+    backgroundImage: HTMLImageElement | null;
+    backgroundFit?: BackgroundFit;
+    width: number;
+    height: number;
+    resolveAsset?: ResolveAsset;
+    crossOrigin?: CrossOrigin;
+  },
+  { pixelRatio = 1 }: ExportOptions = {}
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(scene.width * pixelRatio);
+  canvas.height = Math.round(scene.height * pixelRatio);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+  drawScene(ctx, { ...scene, view: scaleView(DEFAULT_VIEW, pixelRatio) });
+  return toPNG(canvas);
+};
+
+/**
+ * Renders objects on a transparent background, cropped to their bounds and
+ * strokes, e.g. for copying them to the clipboard as an image.
+ *
+ * @returns {string} The objects as a base64-encoded PNG data URL.
+ * @throws {Error} If a cross-origin image keeps the canvas from being read.
+ */
+export const objectsToDataURL = (
+  objects: DrawingObject[],
+  resolveAsset: ResolveAsset = keepSource,
+  crossOrigin: CrossOrigin = null,
+  { pixelRatio = 1 }: ExportOptions = {}
+) => {
+  const bounds = unionBounds(objects);
+  const margin = Math.max(...objects.map((obj) => obj.strokeWidth / 2), 0);
+  const width = bounds.width + margin * 2;
+  const height = bounds.height + margin * 2;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(Math.round(width * pixelRatio), 1);
+  canvas.height = Math.max(Math.round(height * pixelRatio), 1);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+  drawScene(ctx, {
+    objects,
+    backgroundImage: null,
+    width,
+    height,
+    resolveAsset,
+    crossOrigin,
+    view: {
+      scale: pixelRatio,
+      x: (margin - bounds.x) * pixelRatio,
+      y: (margin - bounds.y) * pixelRatio,
+    },
+  });
+  return toPNG(canvas);
+};
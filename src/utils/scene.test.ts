@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { DrawingObject } from "../components/ArtBoard";
+import { DEFAULT_LAYER_ID } from "./layers";
+import {
+  parseScene,
+  SCENE_VERSION,
+  SceneParseError,
+  SceneVersionError,
+  serializeScene,
+} from "./scene";
+
+const rect: DrawingObject = {
+  id: "rect-1",
+  type: "rect",
+  points: [
+    { x: 10, y: 10 },
+    { x: 110, y: 60 },
+  ],
+  stroke: "#000000",
+  strokeWidth: 5,
+  bounds: { x: 10, y: 10, width: 100, height: 50 },
+  selected: false,
+};
+
+describe("parseScene", () => {
+  it("reads back what serializeScene writes", () => {
+    const data = serializeScene({
+      objects: [{ ...rect, selected: true }],
+      width: 640,
+      height: 480,
+      imageSrc: "background.png",
+    });
+    const scene = parseScene(data);
+    expect(scene.version).toBe(SCENE_VERSION);
+    expect(scene.canvas).toEqual({ width: 640, height: 480 });
+    expect(scene.background).toEqual({ imageSrc: "background.png" });
+    expect(scene.objects).toEqual([rect]);
+    expect(scene.layers.map((layer) => layer.id)).toEqual([DEFAULT_LAYER_ID]);
+  });
+
+  it("migrates a legacy array of objects", () => {
+    const { id, ...legacy } = rect;
+    const scene = parseScene(JSON.stringify([legacy, rect]));
+    expect(scene.version).toBe(SCENE_VERSION);
+    expect(scene.canvas).toEqual({ width: 0, height: 0 });
+    expect(scene.background).toEqual({ imageSrc: null });
+    expect(scene.layers.map((layer) => layer.id)).toEqual([DEFAULT_LAYER_ID]);
+    // Objects without an ID get a new one, and those with one keep it
+    expect(typeof scene.objects[0].id).toBe("string");
+    expect(scene.objects[0].id).not.toBe(id);
+    expect(scene.objects[1].id).toBe(id);
+  });
+
+  it("rejects data that is not JSON", () => {
+    expect(() => parseScene("{")).toThrow(SceneParseError);
+  });
+
+  it("rejects documents from a newer version", () => {
+    const doc = JSON.parse(
+      serializeScene({ objects: [], width: 1, height: 1 })
+    );
+    doc.version = SCENE_VERSION + 1;
+    expect(() => parseScene(JSON.stringify(doc))).toThrow(SceneVersionError);
+  });
+
+  it("rejects malformed objects", () => {
+    const data = serializeScene({
+      objects: [{ ...rect, type: "star" as DrawingObject["type"] }],
+      width: 1,
+      height: 1,
+    });
+    expect(() => parseScene(data)).toThrow(/objects\[0\]\.type/);
+  });
+
+  it("rejects object IDs used more than once", () => {
+    const data = serializeScene({
+      objects: [rect, { ...rect }],
+      width: 1,
+      height: 1,
+    });
+    expect(() => parseScene(data)).toThrow(SceneParseError);
+  });
+
+  it("rejects layer IDs used more than once", () => {
+    const layer = { id: "a", name: "A", visible: true, locked: false };
+    const data = serializeScene({
+      objects: [],
+      width: 1,
+      height: 1,
+      layers: [layer, { ...layer, name: "B" }],
+    });
+    expect(() => parseScene(data)).toThrow(SceneParseError);
+  });
+});
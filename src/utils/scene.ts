@@ -0,0 +1,407 @@
+import { DrawingObject, Layer, Point } from "../components/ArtBoard";
+import { createObjectId } from "./id";
+import { createDefaultLayers } from "./layers";
+
+/**
+ * Current version of the serialized scene format.
+ * Bump this whenever the shape of `SceneDocument` changes and add a
+ * matching step to `migrations` below.
+ */
+export const SCENE_VERSION = 1;
+
+/**
+ * A serialized ArtBoard drawing.
+ *
+ * @example
+ * {
+ *   "version": 1,
+ *   "canvas": { "width": 800, "height": 600 },
+ *   "background": { "imageSrc": "https://example.com/background.jpg" },
+ *   "objects": [
+ *     {
+ *       "id": "3b241101-e2bb-4255-8caf-4136c566a962",
+ *       "type": "rect",
+ *       "points": [{ "x": 10, "y": 10 }, { "x": 110, "y": 60 }],
+ *       "stroke": "#000000",
+ *       "strokeWidth": 5,
+ *       "bounds": { "x": 10, "y": 10, "width": 100, "height": 50 },
+ *       "selected": false
+ *     }
+ *   ],
+ *   "layers": [
+ *     { "id": "default", "name": "Layer 1", "visible": true, "locked": false }
+ *   ],
+ *   "metadata": { "app": "@enarcui/artboard", "createdAt": "2024-12-28T00:00:00.000Z" }
+ * }
+ */
+export interface SceneDocument {
+  version: number; // Format version, see `SCENE_VERSION`.
+  canvas: {
+    width: number; // Width of the canvas the scene was drawn on.
+    height: number; // Height of the canvas the scene was drawn on.
+  };
+  background: {
+    imageSrc: string | null; // Background image URL, if any.
+  };
+  objects: DrawingObject[]; // The drawable objects, in list order.
+  layers: Layer[]; // The layers, bottom to top.
+  metadata: {
+    app: string; // Name of the library that produced the document.
+    createdAt: string; // ISO timestamp of when the document was written.
+    [key: string]: unknown; // Extra application-defined fields.
+  };
+}
+
+/**
+ * Base class for errors raised while reading a scene document.
+ */
+export class SceneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SceneError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when scene data is not valid JSON or does not match the format.
+ */
+export class SceneParseError extends SceneError {
+  constructor(message: string) {
+    super(message);
+    this.name = "SceneParseError";
+  }
+}
+
+/**
+ * Raised when scene data was written by a newer, unsupported format version.
+ */
+export class SceneVersionError extends SceneError {
+  version: number;
+
+  constructor(version: number) {
+    super(
+      `Unsupported scene version ${version} (latest supported is ${SCENE_VERSION})`
+    );
+    this.name = "SceneVersionError";
+    this.version = version;
+  }
+}
+
+const OBJECT_TYPES: DrawingObject["type"][] = [
+  "brush",
+  "highlighter",
+  "circle",
+  "ellipse",
+  "arrow",
+  "line",
+  "rect",
+  "polygon",
+  "eraser",
+  "text",
+  "image",
+];
+
+const APP_NAME = "@enarcui/artboard";
+
+type RawDocument = Record<string, unknown>;
+
+/**
+ * Upgrades a document from version `n` to `n + 1`, keyed by `n`.
+ */
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // Version 0 is the legacy format: a bare array of drawing objects, without
+  // IDs, all on one layer.
+  0: (doc) => ({
+    version: 1,
+    canvas: { width: 0, height: 0 },
+    background: { imageSrc: null },
+    objects: Array.isArray(doc.objects)
+      ? doc.objects.map((obj) =>
+          isRecord(obj) && obj.id === undefined
+            ? { ...obj, id: createObjectId() }
+            : obj
+        )
+      : doc.objects,
+    layers: createDefaultLayers(),
+    metadata: { app: APP_NAME, createdAt: new Date(0).toISOString() },
+  }),
+};
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value);
+
+const isPoint = (value: unknown): value is Point =>
+  isRecord(value) &&
+  isFiniteNumber(value.x) &&
+  isFiniteNumber(value.y) &&
+  (value.pressure === undefined || isFiniteNumber(value.pressure));
+
+const parsePoints = (value: unknown, path: string): Point[] => {
+  if (!Array.isArray(value) || !value.every(isPoint)) {
+    throw new SceneParseError(`${path} must be an array of {x, y} points`);
+  }
+  return value.map(({ x, y, pressure }) =>
+    pressure === undefined ? { x, y } : { x, y, pressure }
+  );
+};
+
+// Validate one object and strip transient state such as `selected`.
+const parseObject = (value: unknown, index: number): DrawingObject => {
+  const path = `objects[${index}]`;
+  if (!isRecord(value)) {
+    throw new SceneParseError(`${path} must be an object`);
+  }
+  const { id, type, stroke, strokeWidth, bounds } = value;
+  if (typeof id !== "string") {
+    throw new SceneParseError(`${path}.id must be a string`);
+  }
+  if (!OBJECT_TYPES.includes(type as DrawingObject["type"])) {
+    throw new SceneParseError(`${path}.type "${type}" is not a known type`);
+  }
+  if (typeof stroke !== "string") {
+    throw new SceneParseError(`${path}.stroke must be a string`);
+  }
+  if (!isFiniteNumber(strokeWidth)) {
+    throw new SceneParseError(`${path}.strokeWidth must be a number`);
+  }
+  if (
+    !isRecord(bounds) ||
+    !isFiniteNumber(bounds.x) ||
+    !isFiniteNumber(bounds.y) ||
+    !isFiniteNumber(bounds.width) ||
+    !isFiniteNumber(bounds.height)
+  ) {
+    throw new SceneParseError(`${path}.bounds must be {x, y, width, height}`);
+  }
+
+  const object: DrawingObject = {
+    id,
+    type: type as DrawingObject["type"],
+    points: parsePoints(value.points, `${path}.points`),
+    stroke,
+    strokeWidth,
+    bounds: {
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+    },
+    selected: false,
+  };
+  if (typeof value.erased === "boolean") {
+    object.erased = value.erased;
+  }
+  if (typeof value.smooth === "boolean") {
+    object.smooth = value.smooth;
+  }
+  if (typeof value.closed === "boolean") {
+    object.closed = value.closed;
+  }
+  if (value.layer !== undefined) {
+    if (typeof value.layer !== "string") {
+      throw new SceneParseError(`${path}.layer must be a string`);
+    }
+    object.layer = value.layer;
+  }
+  if (value.fill !== undefined) {
+    const { fill } = value;
+    if (
+      !isRecord(fill) ||
+      typeof fill.color !== "string" ||
+      !isFiniteNumber(fill.opacity)
+    ) {
+      throw new SceneParseError(`${path}.fill must be {color, opacity}`);
+    }
+    object.fill = { color: fill.color, opacity: fill.opacity };
+  }
+  if (object.type === "text") {
+    if (typeof value.text !== "string") {
+      throw new SceneParseError(`${path}.text must be a string`);
+    }
+    if (!isFiniteNumber(value.fontSize)) {
+      throw new SceneParseError(`${path}.fontSize must be a number`);
+    }
+    object.text = value.text;
+    object.fontSize = value.fontSize;
+  }
+  if (object.type === "image") {
+    if (typeof value.src !== "string") {
+      throw new SceneParseError(`${path}.src must be a string`);
+    }
+    object.src = value.src;
+  }
+  if (value.erasedPaths !== undefined) {
+    if (!Array.isArray(value.erasedPaths)) {
+      throw new SceneParseError(`${path}.erasedPaths must be an array`);
+    }
+    object.erasedPaths = value.erasedPaths.map((paths, i) =>
+      parsePoints(paths, `${path}.erasedPaths[${i}]`)
+    );
+  }
+  return object;
+};
+
+/**
+ * Validates a list of drawing objects, as found in a scene document or on
+ * the clipboard, and strips transient state such as `selected`.
+ *
+ * @throws {SceneParseError} If the list or one of its objects is malformed.
+ */
+export const parseObjects = (value: unknown): DrawingObject[] => {
+  if (!Array.isArray(value)) {
+    throw new SceneParseError("Scene objects must be an array");
+  }
+  return value.map(parseObject);
+};
+
+const parseLayer = (value: unknown, index: number): Layer => {
+  const path = `layers[${index}]`;
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.name !== "string" ||
+    typeof value.visible !== "boolean" ||
+    typeof value.locked !== "boolean"
+  ) {
+    throw new SceneParseError(`${path} must be {id, name, visible, locked}`);
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    visible: value.visible,
+    locked: value.locked,
+  };
+};
+
+// The first ID that appears more than once, if any
+const findDuplicate = (ids: string[]) => {
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) return id;
+    seen.add(id);
+  }
+  return undefined;
+};
+
+/**
+ * Parses serialized scene data, migrating older versions to `SCENE_VERSION`.
+ *
+ * @param {string} data - JSON produced by `serializeScene`, or a legacy
+ * JSON array of drawing objects.
+ * @returns {SceneDocument} The validated scene document.
+ * @throws {SceneParseError} If the data is malformed, or two objects or two
+ * layers share an ID.
+ * @throws {SceneVersionError} If the data was written by a newer version.
+ */
+export const parseScene = (data: string): SceneDocument => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    throw new SceneParseError(`Scene data is not valid JSON: ${error}`);
+  }
+
+  let doc: RawDocument;
+  if (Array.isArray(raw)) {
+    doc = { version: 0, objects: raw };
+  } else if (isRecord(raw)) {
+    doc = raw;
+  } else {
+    throw new SceneParseError("Scene data must be an object or an array");
+  }
+
+  if (
+    !isFiniteNumber(doc.version) ||
+    doc.version < 0 ||
+    Math.floor(doc.version) !== doc.version
+  ) {
+    throw new SceneParseError("Scene version must be a non-negative integer");
+  }
+  if (doc.version > SCENE_VERSION) {
+    throw new SceneVersionError(doc.version);
+  }
+  while ((doc.version as number) < SCENE_VERSION) {
+    doc = migrations[doc.version as number](doc);
+  }
+
+  const { canvas, background, layers, metadata } = doc;
+  if (
+    !isRecord(canvas) ||
+    !isFiniteNumber(canvas.width) ||
+    !isFiniteNumber(canvas.height)
+  ) {
+    throw new SceneParseError("Scene canvas must be {width, height}");
+  }
+  if (
+    !isRecord(background) ||
+    (background.imageSrc !== null && typeof background.imageSrc !== "string")
+  ) {
+    throw new SceneParseError("Scene background.imageSrc must be a string");
+  }
+  if (!Array.isArray(layers) || layers.length === 0) {
+    throw new SceneParseError("Scene layers must be a non-empty array");
+  }
+
+  const objects = parseObjects(doc.objects);
+  const duplicateObject = findDuplicate(objects.map((obj) => obj.id));
+  if (duplicateObject !== undefined) {
+    throw new SceneParseError(`Object ID "${duplicateObject}" is not unique`);
+  }
+  const parsedLayers = layers.map(parseLayer);
+  const duplicateLayer = findDuplicate(parsedLayers.map((layer) => layer.id));
+  if (duplicateLayer !== undefined) {
+    throw new SceneParseError(`Layer ID "${duplicateLayer}" is not unique`);
+  }
+
+  return {
+    version: SCENE_VERSION,
+    canvas: { width: canvas.width, height: canvas.height },
+    background: { imageSrc: background.imageSrc as string | null },
+    objects,
+    layers: parsedLayers,
+    metadata: {
+      ...(isRecord(metadata) ? metadata : {}),
+      app:
+        isRecord(metadata) && typeof metadata.app === "string"
+          ? metadata.app
+          : APP_NAME,
+      createdAt:
+        isRecord(metadata) && typeof metadata.createdAt === "string"
+          ? metadata.createdAt
+          : new Date(0).toISOString(),
+    },
+  };
+};
+
+/**
+ * Serializes a drawing into a versioned scene document.
+ *
+ * @returns {string} A JSON string that `parseScene` can read back.
+ */
+export const serializeScene = ({
+  objects,
+  width,
+  height,
+  imageSrc,
+  layers = createDefaultLayers(),
+}: {
+  objects: DrawingObject[];
+  width: number;
+  height: number;
+  imageSrc?: string;
+  layers?: Layer[];
+}): string => {
+  const doc: SceneDocument = {
+    version: SCENE_VERSION,
+    canvas: { width, height },
+    background: { imageSrc: imageSrc ?? null },
+    objects: objects.map((obj) => ({ ...obj, selected: false })),
+    layers,
+    metadata: { app: APP_NAME, createdAt: new Date().toISOString() },
+  };
+  return JSON.stringify(doc);
+};
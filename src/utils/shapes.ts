@@ -0,0 +1,91 @@
+import { DrawingObject } from "../components/ArtBoard";
+
+type Point = { x: number; y: number };
+
+/**
+ * Opacity of highlighter strokes.
+ */
+export const HIGHLIGHTER_OPACITY = 0.4;
+
+/**
+ * How many times wider than the brush size a highlighter stroke is.
+ */
+export const HIGHLIGHTER_WIDTH_FACTOR = 3;
+
+// Segments used to approximate an ellipse outline for hit testing
+const ELLIPSE_STEPS = 64;
+
+/**
+ * Whether an object is a freehand stroke made of many points, which the
+ * object eraser splits rather than removes.
+ */
+export const isFreehand = (obj: DrawingObject) =>
+  obj.type === "brush" || obj.type === "highlighter";
+
+/**
+ * Whether an object is a closed shape that can have a fill.
+ */
+export const isFillable = (obj: DrawingObject) =>
+  obj.type === "circle" ||
+  obj.type === "ellipse" ||
+  obj.type === "rect" ||
+  (obj.type === "polygon" && obj.closed === true);
+
+/**
+ * The center and radii of an ellipse drawn from one corner of its bounding
+ * box to the other, or null if it has no second corner yet.
+ */
+export const ellipseGeometry = (obj: DrawingObject) => {
+  const [start, end] = obj.points;
+  if (!start || !end) return null;
+  return {
+    cx: (start.x + end.x) / 2,
+    cy: (start.y + end.y) / 2,
+    rx: Math.abs(end.x - start.x) / 2,
+    ry: Math.abs(end.y - start.y) / 2,
+  };
+};
+
+/**
+ * Points around an ellipse, closing back on the first one.
+ */
+export const ellipseOutline = (obj: DrawingObject): Point[] => {
+  const ellipse = ellipseGeometry(obj);
+  if (!ellipse) return [];
+  const points: Point[] = [];
+  for (let i = 0; i <= ELLIPSE_STEPS; i++) {
+    const angle = (2 * Math.PI * i) / ELLIPSE_STEPS;
+    points.push({
+      x: ellipse.cx + Math.cos(angle) * ellipse.rx,
+      y: ellipse.cy + Math.sin(angle) * ellipse.ry,
+    });
+  }
+  return points;
+};
+
+/**
+ * The vertices of a polygon, repeating the first at the end when it is
+ * closed.
+ */
+export const polygonOutline = (obj: DrawingObject): Point[] =>
+  obj.closed && obj.points.length > 2
+    ? [...obj.points, obj.points[0]]
+    : obj.points;
+
+/**
+ * Whether `p` lies inside a closed outline, by the even-odd rule.
+ */
+export const isInsideOutline = (p: Point, outline: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
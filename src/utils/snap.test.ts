@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignBounds,
+  constrainAngle,
+  constrainRadius,
+  constrainSquare,
+  snapToGrid,
+} from "./snap";
+
+describe("snapToGrid", () => {
+  it("rounds to the nearest intersection", () => {
+    expect(snapToGrid({ x: 14, y: 26 }, 20)).toEqual({ x: 20, y: 20 });
+  });
+
+  it("leaves points alone without a grid", () => {
+    const p = { x: 14, y: 26 };
+    expect(snapToGrid(p, 0)).toBe(p);
+  });
+});
+
+describe("constrainAngle", () => {
+  it("rotates to the nearest 15° step, keeping the length", () => {
+    const end = constrainAngle({ x: 0, y: 0 }, { x: 10, y: 1 });
+    expect(end.x).toBeCloseTo(Math.hypot(10, 1));
+    expect(end.y).toBeCloseTo(0);
+  });
+
+  it("keeps an angle that is already on a step", () => {
+    const end = constrainAngle({ x: 0, y: 0 }, { x: 10, y: 10 });
+    expect(end.x).toBeCloseTo(10);
+    expect(end.y).toBeCloseTo(10);
+  });
+});
+
+describe("constrainSquare", () => {
+  it("grows the shorter side to match the longer", () => {
+    expect(constrainSquare({ x: 0, y: 0 }, { x: 30, y: -10 })).toEqual({
+      x: 30,
+      y: -30,
+    });
+  });
+});
+
+describe("constrainRadius", () => {
+  it("snaps the radius to the grid", () => {
+    const end = constrainRadius({ x: 0, y: 0 }, { x: 0, y: 27 }, 20);
+    expect(end.x).toBeCloseTo(0);
+    expect(end.y).toBeCloseTo(20);
+  });
+
+  it("snaps to 10px steps without a grid, and never to zero", () => {
+    expect(constrainRadius({ x: 0, y: 0 }, { x: 33, y: 0 }, 0)).toEqual({
+      x: 30,
+      y: 0,
+    });
+    expect(constrainRadius({ x: 0, y: 0 }, { x: 2, y: 0 }, 0)).toEqual({
+      x: 10,
+      y: 0,
+    });
+  });
+});
+
+describe("alignBounds", () => {
+  const other = { x: 100, y: 100, width: 50, height: 50 };
+
+  it("lines up edges within the threshold and shows a guide", () => {
+    const moving = { x: 97, y: 300, width: 20, height: 20 };
+    const { dx, dy, guides } = alignBounds(moving, [other], 0, 5);
+    expect(dx).toBe(3);
+    expect(dy).toBe(0);
+    expect(guides).toEqual([
+      { axis: "x", position: 100, start: 100, end: 320 },
+    ]);
+  });
+
+  it("snaps axes that do not line up to the grid", () => {
+    const moving = { x: 13, y: 300, width: 20, height: 20 };
+    const { dx, dy, guides } = alignBounds(moving, [other], 10, 5);
+    expect(dx).toBe(-3);
+    expect(dy).toBe(0);
+    expect(guides).toEqual([]);
+  });
+});
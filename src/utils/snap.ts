@@ -0,0 +1,203 @@
+import { DrawingObject, Guide } from "../components/ArtBoard";
+
+type Point = { x: number; y: number };
+type Bounds = DrawingObject["bounds"];
+
+/**
+ * Angle step of arrows and lines drawn with Shift held, in degrees.
+ */
+export const ANGLE_STEP = 15;
+
+// Radius step of circles drawn with Shift held when there is no grid
+const RADIUS_STEP = 10;
+
+/**
+ * How close, in screen pixels, an edge or center has to come to another
+ * object's to snap to it.
+ */
+export const GUIDE_THRESHOLD = 5;
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+/**
+ * Snaps a point to the nearest grid intersection. A `gridSize` of 0 leaves
+ * it alone.
+ */
+export const snapToGrid = (p: Point, gridSize: number): Point =>
+  gridSize > 0 ? { x: round(p.x, gridSize), y: round(p.y, gridSize) } : p;
+
+/**
+ * Rotates `end` around `start` to the nearest multiple of `ANGLE_STEP`,
+ * keeping its distance.
+ */
+export const constrainAngle = (start: Point, end: Point): Point => {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const step = (ANGLE_STEP * Math.PI) / 180;
+  const angle = round(Math.atan2(end.y - start.y, end.x - start.x), step);
+  return {
+    x: start.x + Math.cos(angle) * length,
+    y: start.y + Math.sin(angle) * length,
+  };
+};
+
+/**
+ * Moves `end` so the rectangle from `start` to it is a square, as large as
+ * the longer side of the dragged one.
+ */
+export const constrainSquare = (start: Point, end: Point): Point => {
+  const size = Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+  return {
+    x: start.x + (end.x >= start.x ? size : -size),
+    y: start.y + (end.y >= start.y ? size : -size),
+  };
+};
+
+/**
+ * Moves `end` along its direction from `center` so the radius is a multiple
+ * of the grid size, or of 10px without a grid.
+ */
+export const constrainRadius = (
+  center: Point,
+  end: Point,
+  gridSize: number
+): Point => {
+  const radius = Math.hypot(end.x - center.x, end.y - center.y);
+  const snapped = Math.max(
+    round(radius, gridSize || RADIUS_STEP),
+    gridSize || RADIUS_STEP
+  );
+  if (radius === 0) return { x: center.x + snapped, y: center.y };
+  return {
+    x: center.x + ((end.x - center.x) / radius) * snapped,
+    y: center.y + ((end.y - center.y) / radius) * snapped,
+  };
+};
+
+// The left edge, center and right edge of bounds along one axis
+const axisLines = (bounds: Bounds, axis: "x" | "y") => {
+  const start = axis === "x" ? bounds.x : bounds.y;
+  const size = axis === "x" ? bounds.width : bounds.height;
+  return [start, start + size / 2, start + size];
+};
+
+// Offset to the nearest line of `others` from one of `moving`'s, or null if
+// none is within `threshold`
+const alignAxis = (
+  moving: Bounds,
+  others: Bounds[],
+  axis: "x" | "y",
+  threshold: number
+) =>
+  axisLines(moving, axis)
+    .flatMap((line) =>
+      others.flatMap((other) =>
+        axisLines(other, axis).map((position) => position - line)
+      )
+    )
+    .filter((offset) => Math.abs(offset) <= threshold)
+    .reduce<number | null>(
+      (best, offset) =>
+        best === null || Math.abs(offset) < Math.abs(best) ? offset : best,
+      null
+    );
+
+// Guides along every line of `moving` that lines up with one of `others`
+const guidesFor = (moving: Bounds, others: Bounds[], axis: "x" | "y") => {
+  const across = axis === "x" ? "y" : "x";
+  const guides: Guide[] = [];
+  axisLines(moving, axis).forEach((position) => {
+    const aligned = others.filter((other) =>
+      axisLines(other, axis).some((line) => Math.abs(line - position) < 0.5)
+    );
+    if (aligned.length === 0) return;
+    const extents = [moving, ...aligned].flatMap((b) => axisLines(b, across));
+    guides.push({
+      axis,
+      position,
+      start: Math.min(...extents),
+      end: Math.max(...extents),
+    });
+  });
+  return guides;
+};
+
+/**
+ * Snaps dragged bounds so their edges or center line up with those of other
+ * objects when they come within `threshold`, and returns guides along the
+ * lines that match. Axes that do not line up are snapped to the grid.
+ *
+ * @returns {{ dx: number, dy: number, guides: Guide[] }} The offset to add
+ * to the drag and the guides to show.
+ */
+export const alignBounds = (
+  moving: Bounds,
+  others: Bounds[],
+  gridSize: number,
+  threshold: number
+) => {
+  const offset = { x: 0, y: 0 };
+  (["x", "y"] as const).forEach((axis) => {
+    const aligned = alignAxis(moving, others, axis, threshold);
+    if (aligned !== null) {
+      offset[axis] = aligned;
+    } else if (gridSize > 0) {
+      const start = axis === "x" ? moving.x : moving.y;
+      offset[axis] = round(start, gridSize) - start;
+    }
+  });
+
+  const snapped = {
+    ...moving,
+    x: moving.x + offset.x,
+    y: moving.y + offset.y,
+  };
+  return {
+    dx: offset.x,
+    dy: offset.y,
+    guides: [
+      ...guidesFor(snapped, others, "x"),
+      ...guidesFor(snapped, others, "y"),
+    ],
+  };
+};
+
+/**
+ * The bounds around a group of objects.
+ */
+export const unionBounds = (objects: DrawingObject[]): Bounds => {
+  const left = Math.min(...objects.map((obj) => obj.bounds.x));
+  const top = Math.min(...objects.map((obj) => obj.bounds.y));
+  const right = Math.max(
+    ...objects.map((obj) => obj.bounds.x + obj.bounds.width)
+  );
+  const bottom = Math.max(
+    ...objects.map((obj) => obj.bounds.y + obj.bounds.height)
+  );
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Constrains the end point of a shape being drawn with Shift held: arrows,
+ * lines and polygon edges to `ANGLE_STEP` increments, rectangles to squares,
+ * ellipses to circles and circles to snapped radii.
+ */
+export const constrainShape = (
+  type: DrawingObject["type"],
+  start: Point,
+  end: Point,
+  gridSize: number
+): Point => {
+  switch (type) {
+    case "arrow":
+    case "line":
+    case "polygon":
+      return constrainAngle(start, end);
+    case "rect":
+    case "ellipse":
+      return constrainSquare(start, end);
+    case "circle":
+      return constrainRadius(start, end, gridSize);
+    default:
+      return end;
+  }
+};
@@ -0,0 +1,205 @@
+import { Point } from "../components/ArtBoard";
+
+// Points used for each round cap of a pressure stroke
+const CAP_STEPS = 8;
+
+/**
+ * Whether a stroke has pen pressure and is drawn with a varying width.
+ */
+export const hasPressure = (points: Point[]) =>
+  points.some((p) => p.pressure !== undefined);
+
+/**
+ * Width of a stroke at a point with the given pressure. A pressure of 0.5,
+ * the default for pointers without pressure support, draws `strokeWidth`.
+ */
+export const pressureWidth = (strokeWidth: number, pressure = 0.5) =>
+  strokeWidth * (0.25 + 1.5 * pressure);
+
+// Points along a half circle around `center`, clockwise from `angle`,
+// without its two ends
+const halfCircle = (center: Point, radius: number, angle: number) => {
+  const points: Point[] = [];
+  for (let i = 1; i < CAP_STEPS; i++) {
+    const a = angle - (Math.PI * i) / CAP_STEPS;
+    points.push({
+      x: center.x + Math.cos(a) * radius,
+      y: center.y + Math.sin(a) * radius,
+    });
+  }
+  return points;
+};
+
+/**
+ * Returns the outline of a stroke whose width follows the pressure at each
+ * point, with round caps. Filling it with the nonzero rule draws the stroke.
+ */
+export const strokeOutline = (points: Point[], strokeWidth: number) => {
+  const path = points.filter(
+    (p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y
+  );
+  if (path.length === 0) return [];
+  if (path.length === 1) {
+    const radius = pressureWidth(strokeWidth, path[0].pressure) / 2;
+    return [
+      ...halfCircle(path[0], radius, 0),
+      ...halfCircle(path[0], radius, Math.PI),
+    ];
+  }
+
+  // Offset each point to both sides, across the direction of travel
+  const left: Point[] = [];
+  const right: Point[] = [];
+  const normals: number[] = [];
+  path.forEach((p, i) => {
+    const prev = path[Math.max(i - 1, 0)];
+    const next = path[Math.min(i + 1, path.length - 1)];
+    const normal = Math.atan2(next.y - prev.y, next.x - prev.x) + Math.PI / 2;
+    const radius = pressureWidth(strokeWidth, p.pressure) / 2;
+    normals.push(normal);
+    left.push({
+      x: p.x + Math.cos(normal) * radius,
+      y: p.y + Math.sin(normal) * radius,
+    });
+    right.push({
+      x: p.x - Math.cos(normal) * radius,
+      y: p.y - Math.sin(normal) * radius,
+    });
+  });
+
+  const last = path.length - 1;
+  return [
+    ...left,
+    ...halfCircle(
+      path[last],
+      pressureWidth(strokeWidth, path[last].pressure) / 2,
+      normals[last]
+    ),
+    ...right.reverse(),
+    ...halfCircle(
+      path[0],
+      pressureWidth(strokeWidth, path[0].pressure) / 2,
+      normals[0] + Math.PI
+    ),
+  ];
+};
+
+// Squared distance from `p` to the segment from `a` to `b`
+const segmentDistanceSq = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)
+        );
+  const x = a.x + t * dx - p.x;
+  const y = a.y + t * dy - p.y;
+  return x * x + y * y;
+};
+
+/**
+ * Simplifies a polyline with the Ramer–Douglas–Peucker algorithm, dropping
+ * points that lie within `tolerance` of the line through their neighbours.
+ * The points that are kept are the original ones, pressure included.
+ */
+export const simplifyPoints = (points: Point[], tolerance: number) => {
+  if (points.length < 3 || tolerance <= 0) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  // Iterative, so long strokes cannot overflow the call stack
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  const toleranceSq = tolerance * tolerance;
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop() as [number, number];
+    let farthest = -1;
+    let maxDistanceSq = toleranceSq;
+    for (let i = first + 1; i < last; i++) {
+      const distanceSq = segmentDistanceSq(
+        points[i],
+        points[first],
+        points[last]
+      );
+      if (distanceSq > maxDistanceSq) {
+        farthest = i;
+        maxDistanceSq = distanceSq;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+const midpoint = (a: Point, b: Point): Point => {
+  const mid: Point = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  if (a.pressure !== undefined && b.pressure !== undefined) {
+    mid.pressure = (a.pressure + b.pressure) / 2;
+  }
+  return mid;
+};
+
+/**
+ * The quadratic curves of a smoothed stroke: each point is the control point
+ * of a curve between the midpoints of the segments on either side of it.
+ * The first curve starts from the first point instead of a midpoint, and a
+ * straight segment runs from the last midpoint to the last point, so the
+ * stroke still ends on its first and last points.
+ *
+ * @returns {{ start: Point, curves: { control: Point, end: Point }[] }}
+ */
+export const smoothCurves = (points: Point[]) => {
+  const curves: { control: Point; end: Point }[] = [];
+  for (let i = 1; i < points.length - 1; i++) {
+    curves.push({
+      control: points[i],
+      end: midpoint(points[i], points[i + 1]),
+    });
+  }
+  const last = points[points.length - 1];
+  if (last) curves.push({ control: last, end: last });
+  return { start: points[0], curves };
+};
+
+// Points sampled along each curve of a smoothed stroke
+const CURVE_SAMPLES = 6;
+
+/**
+ * Samples a smoothed stroke into a polyline, e.g. to build its outline.
+ * Pressure is interpolated along each curve.
+ */
+export const samplePoints = (points: Point[]) => {
+  if (points.length < 3) return points;
+  const { start, curves } = smoothCurves(points);
+  const sampled: Point[] = [start];
+  let from = start;
+  curves.forEach(({ control, end }) => {
+    for (let i = 1; i <= CURVE_SAMPLES; i++) {
+      const t = i / CURVE_SAMPLES;
+      const a = (1 - t) * (1 - t);
+      const b = 2 * (1 - t) * t;
+      const c = t * t;
+      const p: Point = {
+        x: a * from.x + b * control.x + c * end.x,
+        y: a * from.y + b * control.y + c * end.y,
+      };
+      if (
+        from.pressure !== undefined &&
+        control.pressure !== undefined &&
+        end.pressure !== undefined
+      ) {
+        p.pressure =
+          a * from.pressure + b * control.pressure + c * end.pressure;
+      }
+      sampled.push(p);
+    }
+    from = end;
+  });
+  return sampled;
+};
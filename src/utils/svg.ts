@@ -0,0 +1,257 @@
+import { BackgroundFit, DrawingObject } from "../components/ArtBoard";
+import { backgroundRect } from "./background";
+import {
+  hasPressure,
+  samplePoints,
+  smoothCurves,
+  strokeOutline,
+} from "./stroke";
+import { keepSource, ResolveAsset } from "./images";
+import { ellipseGeometry, HIGHLIGHTER_OPACITY } from "./shapes";
+import { DEFAULT_FONT_SIZE, TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from "./text";
+
+type Point = { x: number; y: number };
+
+// Keep the markup compact without losing visible precision
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const fillAttrs = (obj: DrawingObject) =>
+  obj.fill
+    ? `fill="${escapeXML(obj.fill.color)}" fill-opacity="${num(
+        obj.fill.opacity
+      )}"`
+    : `fill="none"`;
+
+const strokeAttrs = (obj: DrawingObject) =>
+  `${fillAttrs(obj)} stroke="${escapeXML(obj.stroke)}" stroke-width="${num(
+    obj.strokeWidth
+  )}" stroke-linecap="round" stroke-linejoin="round"`;
+
+const polylinePath = (points: Point[]) =>
+  points
+    .map((p, i) => `${i === 0 ? "M" : "L"}${num(p.x)} ${num(p.y)}`)
+    .join(" ");
+
+// Quadratic curves through the midpoints, as drawn for smoothed strokes
+const smoothPath = (points: Point[]) => {
+  const { start, curves } = smoothCurves(points);
+  return [
+    `M${num(start.x)} ${num(start.y)}`,
+    ...curves.map(
+      ({ control, end }) =>
+        `Q${num(control.x)} ${num(control.y)} ${num(end.x)} ${num(end.y)}`
+    ),
+  ].join(" ");
+};
+
+// Mirrors drawObject in render.ts
+const objectToSVG = (
+  obj: DrawingObject,
+  attrs: string,
+  resolveAsset: ResolveAsset = keepSource
+): string => {
+  switch (obj.type) {
+    case "brush":
+    case "eraser": {
+      // Pen strokes vary in width, so they are filled as an outline instead
+      if (hasPressure(obj.points)) {
+        const points = obj.smooth ? samplePoints(obj.points) : obj.points;
+        const outline = strokeOutline(points, obj.strokeWidth);
+        if (outline.length === 0) return "";
+        return `<path d="${polylinePath(outline)} Z" fill="${escapeXML(
+          obj.stroke
+        )}"/>`;
+      }
+      if (obj.points.length < 2) return "";
+      const d = obj.smooth ? smoothPath(obj.points) : polylinePath(obj.points);
+      return `<path d="${d}" ${attrs}/>`;
+    }
+    case "highlighter":
+      return `<g opacity="${num(
+        HIGHLIGHTER_OPACITY
+      )}" style="mix-blend-mode:multiply">${objectToSVG(
+        { ...obj, type: "brush" },
+        attrs
+      )}</g>`;
+    case "line": {
+      const [start, end] = obj.points;
+      if (!start || !end) return "";
+      return `<line x1="${num(start.x)}" y1="${num(start.y)}" x2="${num(
+        end.x
+      )}" y2="${num(end.y)}" ${attrs}/>`;
+    }
+    case "ellipse": {
+      const ellipse = ellipseGeometry(obj);
+      if (!ellipse) return "";
+      return `<ellipse cx="${num(ellipse.cx)}" cy="${num(
+        ellipse.cy
+      )}" rx="${num(ellipse.rx)}" ry="${num(ellipse.ry)}" ${attrs}/>`;
+    }
+    case "polygon": {
+      if (obj.points.length < 2) return "";
+      const points = obj.points.map((p) => `${num(p.x)},${num(p.y)}`).join(" ");
+      return `<${
+        obj.closed ? "polygon" : "polyline"
+      } points="${points}" ${attrs}/>`;
+    }
+    case "circle": {
+      const [center, circumference] = obj.points;
+      if (!center || !circumference) return "";
+      const radius = Math.hypot(
+        center.x - circumference.x,
+        center.y - circumference.y
+      );
+      return `<circle cx="${num(center.x)}" cy="${num(center.y)}" r="${num(
+        radius
+      )}" ${attrs}/>`;
+    }
+    case "rect": {
+      const [start, end] = obj.points;
+      if (!start || !end) return "";
+      return `<rect x="${num(Math.min(start.x, end.x))}" y="${num(
+        Math.min(start.y, end.y)
+      )}" width="${num(Math.abs(end.x - start.x))}" height="${num(
+        Math.abs(end.y - start.y)
+      )}" ${attrs}/>`;
+    }
+    case "text": {
+      const [origin] = obj.points;
+      if (!origin || !obj.text) return "";
+      const fontSize = obj.fontSize ?? DEFAULT_FONT_SIZE;
+      const lines = obj.text
+        .split("\n")
+        .map(
+          (line, i) =>
+            `<tspan x="${num(origin.x)}" y="${num(
+              origin.y + i * fontSize * TEXT_LINE_HEIGHT
+            )}">${escapeXML(line)}</tspan>`
+        )
+        .join("");
+      return `<text font-family="${escapeXML(
+        TEXT_FONT_FAMILY
+      )}" font-size="${num(fontSize)}" fill="${escapeXML(
+        obj.stroke
+      )}" dominant-baseline="text-before-edge" xml:space="preserve">${lines}</text>`;
+    }
+    case "image": {
+      const [start, end] = obj.points;
+      if (!start || !end || !obj.src) return "";
+      return `<image href="${escapeXML(resolveAsset(obj.src))}" x="${num(
+        Math.min(start.x, end.x)
+      )}" y="${num(Math.min(start.y, end.y))}" width="${num(
+        Math.abs(end.x - start.x)
+      )}" height="${num(
+        Math.abs(end.y - start.y)
+      )}" preserveAspectRatio="none"/>`;
+    }
+    case "arrow": {
+      const [start, end] = obj.points;
+      if (!start || !end) return "";
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      const headLen = 20;
+      const left = {
+        x: end.x - headLen * Math.cos(angle - Math.PI / 6),
+        y: end.y - headLen * Math.sin(angle - Math.PI / 6),
+      };
+      const right = {
+        x: end.x - headLen * Math.cos(angle + Math.PI / 6),
+        y: end.y - headLen * Math.sin(angle + Math.PI / 6),
+      };
+      return (
+        `<line x1="${num(start.x)}" y1="${num(start.y)}" x2="${num(
+          end.x
+        )}" y2="${num(end.y)}" ${attrs}/>` +
+        `<path d="${polylinePath([left, end, right])}" ${attrs}/>`
+      );
+    }
+  }
+};
+
+/**
+ * Converts drawing objects into a standalone SVG document.
+ *
+ * Eraser strokes are exported as masks over everything drawn before them,
+ * matching the `destination-out` compositing used on the canvas. Image
+ * objects link to the URLs `resolveAsset` maps their `src` to.
+ *
+ * The background is fitted by `backgroundFit`, which needs the image's
+ * natural `backgroundSize` for every fit but "stretch".
+ *
+ * @returns {string} The SVG markup.
+ */
+export const objectsToSVG = ({
+  objects,
+  width,
+  height,
+  imageSrc,
+  backgroundFit = "stretch",
+  backgroundSize,
+  resolveAsset = keepSource,
+}: {
+  objects: DrawingObject[];
+  width: number;
+  height: number;
+  imageSrc?: string;
+  backgroundFit?: BackgroundFit;
+  backgroundSize?: { width: number; height: number };
+  resolveAsset?: ResolveAsset;
+}): string => {
+  const defs: string[] = [];
+  let content = "";
+
+  objects.forEach((obj) => {
+    if (obj.type === "eraser") {
+      const mask = { ...obj, stroke: "black" };
+      const maskPath = objectToSVG(mask, strokeAttrs(mask));
+      if (!maskPath) return;
+      const id = `artboard-erase-${defs.length}`;
+      defs.push(
+        `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${num(
+          width
+        )}" height="${num(height)}">` +
+          `<rect x="0" y="0" width="${num(width)}" height="${num(
+            height
+          )}" fill="white"/>${maskPath}</mask>`
+      );
+      content = `<g mask="url(#${id})">${content}</g>`;
+      return;
+    }
+    content += objectToSVG(obj, strokeAttrs(obj), resolveAsset);
+  });
+
+  // The background sits outside the masks so erasers never reach it, and
+  // the document's bounds crop what is fitted beyond them
+  const rect = backgroundSize
+    ? backgroundRect(
+        backgroundSize.width,
+        backgroundSize.height,
+        width,
+        height,
+        backgroundFit
+      )
+    : { x: 0, y: 0, width, height };
+  const background = imageSrc
+    ? `<image href="${escapeXML(imageSrc)}" x="${num(rect.x)}" y="${num(
+        rect.y
+      )}" width="${num(rect.width)}" height="${num(
+        rect.height
+      )}" preserveAspectRatio="none"/>`
+    : "";
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(
+      width
+    )}" height="${num(height)}" viewBox="0 0 ${num(width)} ${num(height)}">` +
+    (defs.length ? `<defs>${defs.join("")}</defs>` : "") +
+    background +
+    content +
+    "</svg>"
+  );
+};
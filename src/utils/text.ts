@@ -0,0 +1,50 @@
+/**
+ * Font family used for text objects, matching the controls.
+ */
+export const TEXT_FONT_FAMILY = "Roboto, sans-serif";
+
+/**
+ * Line height of text objects, as a multiple of the font size.
+ */
+export const TEXT_LINE_HEIGHT = 1.2;
+
+/**
+ * Font size used when a text object does not specify one.
+ */
+export const DEFAULT_FONT_SIZE = 20;
+
+/**
+ * Font size for new text, derived from the size slider.
+ */
+export const fontSizeFromRadius = (radius: number) => radius * 4;
+
+/**
+ * CSS/canvas font shorthand for a text object.
+ */
+export const textFont = (fontSize: number) =>
+  `${fontSize}px ${TEXT_FONT_FAMILY}`;
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+/**
+ * Measures multi-line text as it is drawn on the canvas.
+ *
+ * @returns {{ width: number, height: number }} The size of the text block.
+ */
+export const measureText = (text: string, fontSize: number) => {
+  const lines = text.split("\n");
+  if (!measureCtx && typeof document !== "undefined") {
+    measureCtx = document.createElement("canvas").getContext("2d");
+  }
+  let width = 0;
+  lines.forEach((line) => {
+    if (measureCtx) {
+      measureCtx.font = textFont(fontSize);
+      width = Math.max(width, measureCtx.measureText(line).width);
+    } else {
+      // Rough estimate when there is no DOM, e.g. during SSR
+      width = Math.max(width, line.length * fontSize * 0.6);
+    }
+  });
+  return { width, height: lines.length * fontSize * TEXT_LINE_HEIGHT };
+};
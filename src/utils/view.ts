@@ -0,0 +1,88 @@
+import { DrawingObject, View } from "../components/ArtBoard";
+
+type Point = { x: number; y: number };
+
+/**
+ * The view at 100% with no pan.
+ */
+export const DEFAULT_VIEW: View = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Smallest and largest zoom levels.
+ */
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 10;
+
+export const clampScale = (scale: number) =>
+  Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+/**
+ * Scales a view by a device pixel ratio, mapping drawing coordinates to
+ * backing store pixels instead of CSS pixels.
+ */
+export const scaleView = (view: View, ratio: number): View => ({
+  scale: view.scale * ratio,
+  x: view.x * ratio,
+  y: view.y * ratio,
+});
+
+/**
+ * Maps a point on the canvas element to drawing coordinates.
+ */
+export const screenToDrawing = (view: View, p: Point): Point => ({
+  x: (p.x - view.x) / view.scale,
+  y: (p.y - view.y) / view.scale,
+});
+
+/**
+ * Maps a point in drawing coordinates to the canvas element.
+ */
+export const drawingToScreen = (view: View, p: Point): Point => ({
+  x: p.x * view.scale + view.x,
+  y: p.y * view.scale + view.y,
+});
+
+/**
+ * Zooms by `factor`, keeping the drawing point under `anchor` (in canvas
+ * element coordinates) in place.
+ */
+export const zoomAt = (view: View, factor: number, anchor: Point): View => {
+  const scale = clampScale(view.scale * factor);
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: anchor.x - (anchor.x - view.x) * ratio,
+    y: anchor.y - (anchor.y - view.y) * ratio,
+  };
+};
+
+/**
+ * Returns the view that fits the drawing area and every object into a
+ * `width`×`height` viewport, centered.
+ */
+export const fitView = (
+  objects: DrawingObject[],
+  width: number,
+  height: number
+): View => {
+  let left = 0;
+  let top = 0;
+  let right = width;
+  let bottom = height;
+  objects.forEach(({ type, bounds }) => {
+    if (type === "eraser") return;
+    left = Math.min(left, bounds.x);
+    top = Math.min(top, bounds.y);
+    right = Math.max(right, bounds.x + bounds.width);
+    bottom = Math.max(bottom, bounds.y + bounds.height);
+  });
+
+  const scale = clampScale(
+    Math.min(width / (right - left), height / (bottom - top))
+  );
+  return {
+    scale,
+    x: (width - (right - left) * scale) / 2 - left * scale,
+    y: (height - (bottom - top) * scale) / 2 - top * scale,
+  };
+};